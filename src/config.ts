@@ -1,17 +1,23 @@
 import dotenv from 'dotenv';
+import path from 'path';
 import type { Config } from './types/index.js';
 import {
   generateSecureToken,
+  loadApiTokens,
+  loadKeystoreRegistry,
+  loadSigningEngine,
+  loadStorageConfig,
   validateAuthToken,
-  validateKeystoreEnv,
+  validateDownloadUrlSecret,
   warnProductionSecurity
 } from './utils/configValidation.js';
+import { parseSignatureSchemes } from './utils/validation.js';
 
 dotenv.config();
 
 // credentials validation with the utilities
 const authToken = validateAuthToken(process.env);
-const keystoreConfig = validateKeystoreEnv(process.env);
+const keystoreRegistry = loadKeystoreRegistry(process.env);
 
 export const isDevelopment = (process.env.NODE_ENV || 'development') === 'development';
 
@@ -19,6 +25,7 @@ export const config: Config = {
   port: parseInt(process.env.PORT || '3000', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
   staticAuthToken: authToken,
+  apiTokens: loadApiTokens(process.env, authToken),
   ssl: {
     enabled: process.env.SSL_ENABLED === 'true',
     domain: process.env.SSL_DOMAIN || '',
@@ -28,16 +35,37 @@ export const config: Config = {
     httpPort: parseInt(process.env.HTTP_PORT || '80', 10),
     httpsPort: parseInt(process.env.HTTPS_PORT || '443', 10),
   },
-  keystore: keystoreConfig,
+  storage: loadStorageConfig(process.env),
+  keystores: keystoreRegistry,
+  signing: {
+    defaultSchemes: parseSignatureSchemes(process.env.SIGNING_SCHEMES || 'v1,v2,v3', 'SIGNING_SCHEMES'),
+    engine: loadSigningEngine(process.env),
+    maxConcurrency: parseInt(process.env.SIGNING_MAX_CONCURRENCY || '2', 10),
+    maxQueue: parseInt(process.env.SIGNING_MAX_QUEUE || '10', 10),
+    refuseExpiredCertificate: process.env.REFUSE_EXPIRED_CERTIFICATE === 'true',
+  },
   upload: {
     dir: process.env.UPLOAD_DIR || ('./uploads'),
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '209715200', 10), // 200MB
     retentionHours: parseInt(process.env.FILE_RETENTION_HOURS || '24', 10),
     maxFilesPerDirectory: parseInt(process.env.MAX_FILES_PER_DIRECTORY || '10', 10) - 1,
   },
+  audit: {
+    logPath: process.env.AUDIT_LOG_PATH || path.join(process.env.UPLOAD_DIR || './uploads', 'audit.jsonl'),
+  },
+  readiness: {
+    minFreeDiskBytes: parseInt(process.env.READY_MIN_FREE_DISK_MB || '500', 10) * 1024 * 1024,
+  },
+  downloadLinks: {
+    secret: validateDownloadUrlSecret(process.env),
+    defaultTtlSeconds: parseInt(process.env.DOWNLOAD_URL_TTL_SECONDS || '3600', 10),
+    defaultMaxUses: parseInt(process.env.DOWNLOAD_URL_MAX_USES || '1', 10),
+  },
 };
 
 
-warnProductionSecurity(config.nodeEnv, config.staticAuthToken);
+if (config.staticAuthToken) {
+  warnProductionSecurity(config.nodeEnv, config.staticAuthToken);
+}
 
 export { generateSecureToken };
@@ -1,7 +1,10 @@
 import type { Request, Response } from 'express';
 import rateLimit from 'express-rate-limit';
+import { metricsService } from '../services/metrics.service.js';
 
 interface RateLimiterConfig {
+  /** Limiter name in rate limit metrics */
+  name: string;
   windowMs: number;
   max: number;
   message: string;
@@ -25,6 +28,7 @@ export function createRateLimiter(config: RateLimiterConfig) {
     // This automatically uses express-rate-limit's built-in ipKeyGenerator
     
     handler: (req: Request, res: Response) => {
+      metricsService.recordRateLimitHit(config.name);
       res.status(429).json({
         error: config.message,
         retryAfter: Math.ceil(config.windowMs / 1000),
@@ -0,0 +1,17 @@
+import { LocalStorageDriver } from '../storage/local.driver.js';
+import { S3StorageDriver } from '../storage/s3.driver.js';
+import type { StorageConfig, StorageDriver } from '../types/index.js';
+
+/**
+ * Create storage driver for signed artifacts
+ *
+ * @param storage - Storage configuration
+ * @param localDir - Directory used by the local driver
+ */
+export function createStorageDriver(storage: StorageConfig, localDir: string): StorageDriver {
+  if (storage.driver === 's3' && storage.s3) {
+    return new S3StorageDriver(storage.s3);
+  }
+
+  return new LocalStorageDriver(localDir);
+}
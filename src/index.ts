@@ -7,10 +7,20 @@ import path from 'path';
 import { config } from './config.js';
 import { errorHandler } from './middleware/errorHandler.js';
 import { apiLimiter, speedLimiter } from './middleware/rateLimiter.js';
+import auditRoutes from './routes/audit.routes.js';
+import filesRoutes from './routes/files.routes.js';
 import healthRoutes from './routes/health.routes.js';
+import jobsRoutes from './routes/jobs.routes.js';
+import keysRoutes from './routes/keys.routes.js';
+import metricsRoutes from './routes/metrics.routes.js';
 import signRoutes from './routes/sign.routes.js';
+import uploadsRoutes from './routes/uploads.routes.js';
+import { artifactService } from './services/artifact.service.js';
+import { auditService } from './services/audit.service.js';
+import { certificateService } from './services/certificate.service.js';
 import { cleanupService } from './services/cleanup.service.js';
-import { enforceFileLimit } from './utils/fileLimit.js';
+import { storageService } from './services/storage.service.js';
+import { enforceFileLimit, enforceStorageLimit } from './utils/fileLimit.js';
 import { logger } from './utils/logger.js';
 import { closeServers } from './utils/server.utils.js';
 import {
@@ -28,22 +38,41 @@ app.use(express.json());
 app.use('/api', apiLimiter);
 app.use('/api', speedLimiter);
 app.use('/', healthRoutes);
+app.use('/', metricsRoutes);
 app.use('/api', signRoutes);
+app.use('/api', jobsRoutes);
+app.use('/api', filesRoutes);
+app.use('/api', uploadsRoutes);
+app.use('/api', auditRoutes);
+app.use('/api', keysRoutes);
 app.use(errorHandler);
 
 cleanupService.start();
+certificateService.check();
+
+auditService.verify()
+  .then(result => {
+    if (result.valid) {
+      logger.info('Audit log verified', { entries: result.entries, head: result.head });
+    } else {
+      logger.error('Audit log verification failed', result.error, { entries: result.entries });
+    }
+  })
+  .catch(error => logger.error('Audit log verification error', error));
 
 const initializeFileLimits = async () => {
-  const dirs = ['incoming', 'signed'].map(d => path.join(config.upload.dir, d));
+  const incomingDir = path.join(config.upload.dir, 'incoming');
   
   logger.info('Enforcing file limits on startup', {
     maxFiles: config.upload.maxFilesPerDirectory,
-    directories: dirs,
+    directories: [incomingDir],
+    storage: storageService.name,
   });
   
-  await Promise.all(dirs.map(dir => 
-    enforceFileLimit(dir, config.upload.maxFilesPerDirectory)
-  ));
+  await Promise.all([
+    enforceFileLimit(incomingDir, config.upload.maxFilesPerDirectory),
+    enforceStorageLimit(storageService, config.upload.maxFilesPerDirectory, key => artifactService.isHeld(key)),
+  ]);
   
   logger.info('File limits enforced on startup');
 };
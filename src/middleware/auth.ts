@@ -1,7 +1,21 @@
+import crypto from 'crypto';
 import type { NextFunction, Request, Response } from 'express';
 import { config } from '../config.js';
+import type { AuthIdentity, TokenOperation } from '../types/index.js';
+import { hashApiToken } from '../utils/configValidation.js';
 import { logger } from '../utils/logger.js';
 
+/**
+ * Finds configured token by hash using constant-time comparison
+ */
+function findToken(token: string) {
+  const hash = Buffer.from(hashApiToken(token), 'hex');
+
+  return config.apiTokens.find(t =>
+    crypto.timingSafeEqual(Buffer.from(t.tokenHash, 'hex'), hash)
+  );
+}
+
 export const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization;
 
@@ -11,11 +25,43 @@ export const authMiddleware = (req: Request, res: Response, next: NextFunction)
   }
 
   const token = authHeader.substring(7);
+  const match = findToken(token);
 
-  if (token !== config.staticAuthToken) {
+  if (!match) {
     logger.warn('Invalid token provided', { ip: req.ip });
     return res.status(401).json({ error: 'Unauthorized: Invalid token' });
   }
 
+  req.auth = {
+    name: match.name,
+    operations: match.operations,
+    keys: match.keys,
+  };
+
   next();
 };
+
+/**
+ * Requires authenticated token to be allowed to perform operation, or any of several operations
+ * Must be placed after authMiddleware
+ */
+export const requireOperation = (...operations: TokenOperation[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!operations.some(operation => req.auth?.operations.includes(operation))) {
+      logger.warn('Operation not permitted for token', {
+        requester: req.auth?.name,
+        operation: operations.join(' | '),
+        ip: req.ip,
+      });
+      return res.status(403).json({ error: `Forbidden: token is not allowed to ${operations.join(' or ')}` });
+    }
+
+    next();
+  };
+
+/**
+ * Checks that identity may sign with keystore
+ */
+export function canUseKey(identity: AuthIdentity | undefined, keyId: string): boolean {
+  return !!identity && (identity.keys.includes('*') || identity.keys.includes(keyId));
+}
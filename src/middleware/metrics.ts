@@ -0,0 +1,26 @@
+import type { NextFunction, Request, Response } from 'express';
+import { metricsService, outcomeFromStatus, type MetricsOperation } from '../services/metrics.service.js';
+
+/**
+ * Counts request outcome and upload size once response is sent
+ * Must come before rate limiter so refused requests are counted as well
+ */
+export const trackRequest = (operation: MetricsOperation) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    res.on('finish', () => {
+      metricsService.recordRequest(operation, outcomeFromStatus(res.statusCode));
+
+      if (req.file) {
+        metricsService.observeUploadSize(operation, req.file.size);
+      }
+
+      // Batch sign receives an array, every file is one observation
+      if (Array.isArray(req.files)) {
+        for (const file of req.files) {
+          metricsService.observeUploadSize(operation, file.size);
+        }
+      }
+    });
+
+    next();
+  };
@@ -6,6 +6,7 @@ import { createRateLimiter } from '../factories/limiter.factory.js';
  * 100 requests per 15 minutes per IP
  */
 export const apiLimiter = createRateLimiter({
+  name: 'api',
   windowMs: 15 * 60 * 1000,
   max: 100,
   message: 'Too many requests from this IP, please try again later',
@@ -17,6 +18,7 @@ export const apiLimiter = createRateLimiter({
  * Protection against abuse and resource exhaustion
  */
 export const signLimiter = createRateLimiter({
+  name: 'sign',
   windowMs: 60 * 60 * 1000,
   max: 10,
   message: 'Too many signing requests from this IP',
@@ -28,12 +30,25 @@ export const signLimiter = createRateLimiter({
  * 50 downloads per hour per IP
  */
 export const downloadLimiter = createRateLimiter({
+  name: 'download',
   windowMs: 60 * 60 * 1000,
   max: 50,
   message: 'Too many download requests from this IP',
   customResponse: { limit: 50, window: '1 hour' },
 });
 
+/**
+ * Medium limit for signature verification
+ * 50 verifications per hour per IP
+ */
+export const verifyLimiter = createRateLimiter({
+  name: 'verify',
+  windowMs: 60 * 60 * 1000,
+  max: 50,
+  message: 'Too many verification requests from this IP',
+  customResponse: { limit: 50, window: '1 hour' },
+});
+
 /**
  * Gradual slowdown after exceeding limit
  * After 50 requests starts adding delay
@@ -52,6 +67,7 @@ export const speedLimiter = slowDown({
  * 5 failed attempts per hour
  */
 export const authFailLimiter = createRateLimiter({
+  name: 'auth_fail',
   windowMs: 60 * 60 * 1000,
   max: 5,
   message: 'Too many failed authentication attempts',
@@ -0,0 +1,107 @@
+import express from 'express';
+import { authMiddleware, requireOperation } from '../middleware/auth.js';
+import { auditService, type AuditFilter } from '../services/audit.service.js';
+import type { AuditEvent, AuditListResponse } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { parsePositiveInt } from '../utils/validation.js';
+
+const router = express.Router();
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+const AUDIT_EVENTS: AuditEvent[] = ['sign.success', 'sign.package_refused', 'sign.manifest_rejected'];
+
+/**
+ * GET /api/audit?event=&requester=&keyId=&packageName=&from=&to=&page=1&limit=50
+ * Queries signing audit log, newest first ("from" and "to" are ISO dates)
+ *
+ * Protection:
+ * - Authentication required (token with "admin" operation)
+ */
+router.get('/audit', authMiddleware, requireOperation('admin'), handleListAudit);
+
+/**
+ * GET /api/audit/verify
+ * Checks hash chain of the audit log and reports the first broken entry
+ *
+ * Protection:
+ * - Authentication required (token with "admin" operation)
+ */
+router.get('/audit/verify', authMiddleware, requireOperation('admin'), handleVerifyAudit);
+
+function parseDate(value: unknown, fieldName: string): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${fieldName} must be an ISO date`);
+  }
+  return date;
+}
+
+function parseStringFilter(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+export async function handleListAudit(req: express.Request, res: express.Response) {
+  let page: number;
+  let limit: number;
+  let filter: AuditFilter;
+
+  try {
+    page = parsePositiveInt(req.query.page, 1, Number.MAX_SAFE_INTEGER, 'page');
+    limit = parsePositiveInt(req.query.limit, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, 'limit');
+
+    const event = parseStringFilter(req.query.event);
+    if (event !== undefined && !AUDIT_EVENTS.includes(event as AuditEvent)) {
+      throw new Error(`event must be one of: ${AUDIT_EVENTS.join(', ')}`);
+    }
+
+    filter = {
+      event: event as AuditEvent | undefined,
+      requester: parseStringFilter(req.query.requester),
+      keyId: parseStringFilter(req.query.keyId),
+      packageName: parseStringFilter(req.query.packageName),
+      from: parseDate(req.query.from, 'from'),
+      to: parseDate(req.query.to, 'to'),
+    };
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  try {
+    const entries = await auditService.list(filter);
+
+    const response: AuditListResponse = {
+      entries: entries.slice((page - 1) * limit, page * limit),
+      page,
+      limit,
+      total: entries.length,
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Audit log query error', error, { ip: req.ip, requester: req.auth?.name });
+    res.status(500).json({ error: 'Failed to read audit log' });
+  }
+}
+
+export async function handleVerifyAudit(req: express.Request, res: express.Response) {
+  try {
+    const result = await auditService.verify();
+
+    if (!result.valid) {
+      logger.warn('Audit log verification failed', { ...result.error, requester: req.auth?.name });
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    logger.error('Audit log verification error', error, { ip: req.ip, requester: req.auth?.name });
+    res.status(500).json({ error: 'Failed to verify audit log' });
+  }
+}
+
+export default router;
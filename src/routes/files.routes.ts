@@ -0,0 +1,97 @@
+import express from 'express';
+import { authMiddleware, requireOperation } from '../middleware/auth.js';
+import { artifactService, isExpired } from '../services/artifact.service.js';
+import { storageService } from '../services/storage.service.js';
+import type { FileListResponse } from '../types/index.js';
+import { artifactKey } from '../utils/artifact.utils.js';
+import { logger } from '../utils/logger.js';
+import { parsePositiveInt, sanitizeFileId } from '../utils/validation.js';
+
+const router = express.Router();
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * GET /api/files?page=1&limit=20
+ * Lists signed artifacts that are still available for download, newest first
+ *
+ * Protection:
+ * - Authentication required (token with "admin" operation)
+ */
+router.get('/files', authMiddleware, requireOperation('admin'), handleListFiles);
+
+/**
+ * DELETE /api/files/:fileId
+ * Removes signed artifact and its metadata before retention period ends
+ *
+ * Protection:
+ * - Authentication required (token with "admin" operation)
+ * - Path traversal protection (UUID validation)
+ */
+router.delete('/files/:fileId', authMiddleware, requireOperation('admin'), handleDeleteFile);
+
+export async function handleListFiles(req: express.Request, res: express.Response) {
+  let page: number;
+  let limit: number;
+
+  try {
+    page = parsePositiveInt(req.query.page, 1, Number.MAX_SAFE_INTEGER, 'page');
+    limit = parsePositiveInt(req.query.limit, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, 'limit');
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  try {
+    const now = Date.now();
+    const files = (await artifactService.list()).filter(record => !isExpired(record, now));
+
+    const response: FileListResponse = {
+      files: files.slice((page - 1) * limit, page * limit),
+      page,
+      limit,
+      total: files.length,
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('File listing error', error, { ip: req.ip, requester: req.auth?.name });
+    res.status(500).json({ error: 'Failed to list files' });
+  }
+}
+
+export async function handleDeleteFile(req: express.Request, res: express.Response) {
+  const { fileId } = req.params;
+
+  try {
+    sanitizeFileId(fileId ?? '');
+  } catch {
+    return res.status(400).json({ error: 'Invalid file ID format' });
+  }
+
+  try {
+    const record = await artifactService.get(fileId!);
+
+    if (!record) {
+      logger.warn('File not found for deletion', { fileId, ip: req.ip, requester: req.auth?.name });
+      return res.status(404).json({ error: 'File not found or expired' });
+    }
+
+    await storageService.delete(artifactKey(fileId!, record.type));
+    await artifactService.remove(fileId!);
+
+    logger.info('File deleted on request', {
+      fileId,
+      filename: record.filename,
+      ip: req.ip,
+      requester: req.auth?.name,
+    });
+
+    res.json({ success: true, fileId });
+  } catch (error: any) {
+    logger.error('File deletion error', error, { fileId, ip: req.ip, requester: req.auth?.name });
+    res.status(500).json({ error: 'Failed to delete file' });
+  }
+}
+
+export default router;
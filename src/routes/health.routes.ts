@@ -1,6 +1,10 @@
 import type { Request, Response } from 'express';
 import express from 'express';
+import { certificateService } from '../services/certificate.service.js';
+import { readinessService } from '../services/readiness.service.js';
+import { signingPool } from '../services/signingPool.service.js';
 import type { HealthResponse } from '../types/index.js';
+import { logger } from '../utils/logger.js';
 
 const router = express.Router();
 
@@ -9,8 +13,38 @@ router.get('/health', (req: Request, res: Response) => {
     status: 'ok',
     uptime: process.uptime(),
     timestamp: new Date().toISOString(),
+    signingQueue: signingPool.stats(),
+    certificates: certificateService.summary(),
   };
   res.json(response);
 });
 
+/**
+ * GET /ready
+ * Checks signing prerequisites: keystores unlock, certificates are valid, zip/jarsigner are in PATH (jarsigner engine),
+ * working directories are writable and enough disk space is free
+ * Responds 503 when any check fails or the check itself throws
+ */
+router.get('/ready', async (req: Request, res: Response) => {
+  try {
+    const response = await readinessService.check();
+
+    if (response.status !== 'ready') {
+      logger.warn('Readiness check failed', {
+        failed: response.checks.filter(c => c.status === 'fail').map(c => c.name),
+      });
+    }
+
+    res.status(response.status === 'ready' ? 200 : 503).json(response);
+  } catch (error: any) {
+    logger.error('Readiness check error', error, { ip: req.ip });
+
+    res.status(503).json({
+      status: 'not_ready',
+      error: error.message || 'Readiness check failed',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
 export default router;
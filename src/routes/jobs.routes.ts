@@ -0,0 +1,42 @@
+import express from 'express';
+import { authMiddleware, requireOperation } from '../middleware/auth.js';
+import { jobService } from '../services/job.service.js';
+import { logger } from '../utils/logger.js';
+import { sanitizeFileId } from '../utils/validation.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/jobs/:jobId
+ * Status of asynchronous signing job (queued | validating | signing | done | failed)
+ * Result with download URL is included only when the job is done
+ * 
+ * Jobs live in memory of the replica that accepted the upload, see "Asynchronous mode" in README
+ * 
+ * Protection:
+ * - Authentication required (token with "sign" or "admin" operation)
+ * - Only the token that created the job (or admin) can see it
+ */
+router.get('/jobs/:jobId', authMiddleware, requireOperation('sign', 'admin'), handleJobStatus);
+
+export function handleJobStatus(req: express.Request, res: express.Response) {
+  const { jobId } = req.params;
+
+  try {
+    sanitizeFileId(jobId ?? '');
+  } catch {
+    return res.status(400).json({ error: 'Invalid job ID format' });
+  }
+
+  const job = jobService.get(jobId!);
+  const isOwner = jobService.getRequester(jobId!) === req.auth?.name;
+
+  if (!job || (!isOwner && !req.auth?.operations.includes('admin'))) {
+    logger.warn('Job not found', { jobId, ip: req.ip, requester: req.auth?.name });
+    return res.status(404).json({ error: 'Job not found or expired' });
+  }
+
+  res.json(job);
+}
+
+export default router;
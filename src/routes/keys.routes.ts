@@ -0,0 +1,78 @@
+import express from 'express';
+import { authMiddleware, requireOperation } from '../middleware/auth.js';
+import { certificateService } from '../services/certificate.service.js';
+import { keystoreService } from '../services/keystore.service.js';
+import { lineageService } from '../services/lineage.service.js';
+import type { SignerCapabilities } from '../types/index.js';
+import { parseSignerCapabilities } from '../utils/configValidation.js';
+import { logger } from '../utils/logger.js';
+
+const router = express.Router();
+
+/**
+ * POST /api/keys/lineage
+ * Body: { "from": keyId, "to": keyId, "capabilities"?: { "installedData", "sharedUid", "permission", "rollback", "auth" } }
+ * Generates signing lineage file (`apksigner --lineage` format) in which "from" key signs "to" key certificate,
+ * capabilities are granted to the "from" key
+ *
+ * Protection:
+ * - Authentication required (token with "admin" operation)
+ * - Only keys from the registry, private keys never leave the service
+ */
+router.post('/keys/lineage', authMiddleware, requireOperation('admin'), handleCreateLineage);
+
+/**
+ * GET /api/keys/certificates
+ * Re-reads signer certificates of all keystores: validity dates and days remaining per key
+ *
+ * Protection:
+ * - Authentication required (token with "admin" operation)
+ */
+router.get('/keys/certificates', authMiddleware, requireOperation('admin'), handleListCertificates);
+
+export async function handleCreateLineage(req: express.Request, res: express.Response) {
+  const { from, to, capabilities: rawCapabilities } = req.body ?? {};
+  let capabilities: SignerCapabilities;
+
+  try {
+    if (typeof from !== 'string' || typeof to !== 'string') {
+      throw new Error('"from" and "to" key IDs are required');
+    }
+    if (from === to) {
+      throw new Error('"from" and "to" must be different keys');
+    }
+    for (const keyId of [from, to]) {
+      if (!keystoreService.has(keyId)) {
+        throw new Error(`Unknown key ID: ${keyId}`);
+      }
+    }
+    capabilities = parseSignerCapabilities(rawCapabilities, 'capabilities');
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message.replace(/^❌ /, '') });
+  }
+
+  try {
+    const lineage = await lineageService.createLineageFile(from, to, capabilities);
+
+    logger.info('Signing lineage generated', { from, to, capabilities, requester: req.auth?.name });
+
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename="${from}-${to}.lineage"`);
+    res.send(lineage);
+  } catch (error: any) {
+    logger.error('Lineage generation error', error, { from, to, ip: req.ip, requester: req.auth?.name });
+    res.status(500).json({ error: error.message || 'Failed to generate lineage' });
+  }
+}
+
+export async function handleListCertificates(req: express.Request, res: express.Response) {
+  try {
+    const certificates = await certificateService.check();
+    res.json({ certificates });
+  } catch (error: any) {
+    logger.error('Certificate listing error', error, { ip: req.ip, requester: req.auth?.name });
+    res.status(500).json({ error: error.message || 'Failed to read certificates' });
+  }
+}
+
+export default router;
@@ -0,0 +1,25 @@
+import type { Request, Response } from 'express';
+import express from 'express';
+import { metricsService } from '../services/metrics.service.js';
+import { logger } from '../utils/logger.js';
+
+const router = express.Router();
+
+/**
+ * GET /metrics
+ * Prometheus text format: request outcomes, validation rejections, rate limit hits,
+ * jarsigner duration, upload size, files and bytes in working directories and storage
+ * 
+ * Not authenticated like /health, expose to the monitoring network only
+ */
+router.get('/metrics', async (req: Request, res: Response) => {
+  try {
+    res.setHeader('Content-Type', metricsService.contentType);
+    res.send(await metricsService.render());
+  } catch (error) {
+    logger.error('Metrics collection error', error);
+    res.status(500).json({ error: 'Failed to collect metrics' });
+  }
+});
+
+export default router;
@@ -1,112 +1,912 @@
 import express from 'express';
 import fs from 'fs-extra';
+import multer from 'multer';
 import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
 import { config } from '../config.js';
-import { authMiddleware } from '../middleware/auth.js';
-import { downloadLimiter, signLimiter } from '../middleware/rateLimiter.js';
-import { signingService } from '../services/signing.service.js';
-import { upload } from '../services/upload.service.js';
-import type { SignResponse } from '../types/index.js';
-import { safeRemove } from '../utils/file.utils.js';
-import { enforceFileLimit } from '../utils/fileLimit.js';
-import { validateApkFile } from '../utils/fileValidation.js';
+import { authMiddleware, canUseKey, requireOperation } from '../middleware/auth.js';
+import { trackRequest } from '../middleware/metrics.js';
+import { downloadLimiter, signLimiter, verifyLimiter } from '../middleware/rateLimiter.js';
+import { artifactService, isExpired } from '../services/artifact.service.js';
+import { auditService } from '../services/audit.service.js';
+import { certificateService } from '../services/certificate.service.js';
+import { downloadLinkService, linkAccess, type DownloadLinkOptions } from '../services/downloadLink.service.js';
+import { JobFailure, jobService } from '../services/job.service.js';
+import { keystoreService } from '../services/keystore.service.js';
+import { metricsService } from '../services/metrics.service.js';
+import { signingService, type SignOptions } from '../services/signing.service.js';
+import { QueueFullError, signingPool } from '../services/signingPool.service.js';
+import { storageService } from '../services/storage.service.js';
+import { batchUpload, isZipUpload, upload } from '../services/upload.service.js';
+import { verificationService } from '../services/verification.service.js';
+import type {
+  ApkManifestInfo,
+  ArtifactRecord,
+  ArtifactType,
+  BatchSignFileResult,
+  BatchSignResponse,
+  JobAcceptedResponse,
+  ManifestRuleViolation,
+  SignatureScheme,
+  SignResponse,
+  VerifyResponse
+} from '../types/index.js';
+import { ARTIFACT_FORMATS, artifactKey, detectArtifactType } from '../utils/artifact.utils.js';
+import { createArchive, extractArtifacts } from '../utils/batchArchive.js';
+import { parseDownloadRange } from '../utils/downloadRange.js';
+import { safeRemove, sha256File } from '../utils/file.utils.js';
+import { enforceFileLimit, enforceStorageLimit, holdFiles } from '../utils/fileLimit.js';
+import { checkManifestRules, validateApkFile, validateArtifactFile } from '../utils/fileValidation.js';
 import { logger } from '../utils/logger.js';
-import { safeFilePath } from '../utils/validation.js';
+import { isPackageAllowed } from '../utils/packagePolicy.js';
+import { parsePositiveInt, parseSignatureSchemes, sanitizeFileId, sanitizeFilename } from '../utils/validation.js';
 
 const router = express.Router();
 
 /**
  * POST /api/sign
- * Signs the uploaded APK file
+ * Signs the uploaded APK or AAB file (.aab bundles are signed with v1 only)
+ * Split APK sets (.apks, .xapk) are signed APK by APK and returned repackaged with table of contents
  * 
  * Protection:
  * - Rate limiting: 10 requests per hour
- * - Authentication required
- * - File validation (magic bytes, APK structure, Zip Bomb protection)
+ * - Authentication required (token with "sign" operation and access to the key)
+ * - File validation (magic bytes, APK/AAB structure, every APK of split sets, Zip Bomb protection)
+ * - Package name allowlist of the key (403 on mismatch)
+ * - Every signing and policy refusal is written to the audit log
+ * - Manifest rules of the key (debuggable, testOnly, cleartext traffic, targetSdk floor)
  * - File size limits
+ * - Expired signing certificate is refused when REFUSE_EXPIRED_CERTIFICATE=true
+ * - Bounded signing queue (503 with Retry-After when full)
+ * 
+ * Optional form fields:
+ * - "schemes": comma-separated list of v1, v2, v3 (defaults to SIGNING_SCHEMES for APK)
+ * - "keyId": keystore registry ID (defaults to DEFAULT_KEY_ID)
+ * - "presignedUrl": "true" to get downloadUrl usable without Authorization header
+ *   ("urlExpiresIn" seconds and "urlMaxUses" override DOWNLOAD_URL_TTL_SECONDS / DOWNLOAD_URL_MAX_USES)
+ * 
+ * With ?async=true responds 202 with job ID right after upload,
+ * progress is available at GET /api/jobs/:jobId
+ */
+router.post('/sign', trackRequest('sign'), signLimiter, authMiddleware, requireOperation('sign'), upload.single('file'), handleSign);
+
+// Limits are enforced once per batch with room for all its files, which are kept in incoming
+// and signed storage until the batch completes, so a batch cannot exceed MAX_FILES_PER_DIRECTORY
+const MAX_BATCH_FILES = Math.min(50, config.upload.maxFilesPerDirectory);
+
+/**
+ * POST /api/sign/batch
+ * Signs several APK/AAB files ("files" field, repeated) or a single ZIP of them in one request
+ * Every file is validated and signed independently, failures are reported per file
+ * 
+ * Protection:
+ * - Rate limiting: counts as one request of the signing limit (10 per hour)
+ * - Authentication required (token with "sign" operation and access to the key)
+ * - Same per-file checks as POST /api/sign (validation, package allowlist, manifest rules, audit log)
+ * - At most MAX_BATCH_FILES files, ZIP entries checked for size and compression ratio
+ * - Batch takes one slot of the bounded signing queue (503 with Retry-After when full)
+ * 
+ * Optional form fields are the same as for POST /api/sign, plus:
+ * - "archive": "true" to also get a single ZIP download of all signed files
  */
-router.post('/sign', signLimiter, authMiddleware, upload.single('file'), handleSign);
+router.post('/sign/batch', trackRequest('sign'), signLimiter, authMiddleware, requireOperation('sign'), receiveBatch, handleSignBatch);
+
+/**
+ * POST /api/verify
+ * Verifies signatures of the uploaded APK and returns a report
+ * (schemes present, signer certificates, entry digest check)
+ * 
+ * Protection:
+ * - Rate limiting: 50 requests per hour
+ * - Authentication required (token with "verify" operation)
+ * - File validation (magic bytes, APK structure, Zip Bomb protection)
+ */
+router.post('/verify', trackRequest('verify'), verifyLimiter, authMiddleware, requireOperation('verify'), upload.single('file'), handleVerify);
 
 /**
  * GET /api/download/:fileId
- * Download signed APK file
+ * Download signed APK or AAB file
  * 
  * Protection:
  * - Rate limiting: 50 requests per hour
- * - Authentication required
+ * - Authentication required (token with "download" operation),
+ *   or pre-signed URL (?link&expires&signature) with expiry and use limit
  * - Path traversal protection (UUID validation)
  */
-router.get('/download/:fileId', downloadLimiter, authMiddleware, handleDownload);
+router.get('/download/:fileId', trackRequest('download'), downloadLimiter, requireDownloadAccess, handleDownload);
+
+// Upper bound for urlMaxUses
+const MAX_LINK_USES = 100;
+
+/**
+ * Pre-signed URLs carry their own HMAC proof and skip token authentication,
+ * the link itself is checked in handleDownload
+ */
+function requireDownloadAccess(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (req.query.signature !== undefined) {
+    return next();
+  }
+
+  authMiddleware(req, res, () => requireOperation('download')(req, res, next));
+}
+
+/**
+ * Receives batch upload, upload errors (too many files, wrong type) are client errors
+ */
+function receiveBatch(req: express.Request, res: express.Response, next: express.NextFunction) {
+  batchUpload.array('files', MAX_BATCH_FILES)(req, res, (error?: unknown) => {
+    if (error instanceof multer.MulterError) {
+      return res.status(400).json({
+        error: error.code === 'LIMIT_UNEXPECTED_FILE' ? `Too many files, at most ${MAX_BATCH_FILES} per batch` : error.message
+      });
+    }
+    if (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    next();
+  });
+}
+
+/**
+ * Key ID from "keyId" form field, DEFAULT_KEY_ID when omitted
+ */
+function requestedKeyId(req: express.Request): string {
+  return typeof req.body?.keyId === 'string' && req.body.keyId !== ''
+    ? req.body.keyId
+    : keystoreService.defaultId;
+}
+
+/**
+ * Checks that the key exists, token may use it and its certificate is accepted
+ * 
+ * @returns Status and error to respond with, null when key may be used
+ */
+async function checkKeyAccess(
+  req: express.Request,
+  keyId: string
+): Promise<{ status: number; error: string } | null> {
+  if (!keystoreService.has(keyId)) {
+    logger.warn('Unknown key ID requested', { keyId, ip: req.ip, requester: req.auth?.name });
+    return { status: 400, error: `Unknown key ID: ${keyId}` };
+  }
+
+  if (!canUseKey(req.auth, keyId)) {
+    logger.warn('Key not permitted for token', { keyId, ip: req.ip, requester: req.auth?.name });
+    return { status: 403, error: `Forbidden: token is not allowed to use key ${keyId}` };
+  }
+
+  const expiredKeyId = config.signing.refuseExpiredCertificate ? await certificateService.expiredKey(keyId) : null;
+  if (expiredKeyId) {
+    logger.warn('Signing refused, certificate expired', { keyId, expiredKeyId, ip: req.ip, requester: req.auth?.name });
+    return {
+      status: 400,
+      error: expiredKeyId === keyId
+        ? `Signing certificate of key ${keyId} has expired`
+        : `Signing certificate of key ${expiredKeyId} in the rotation lineage of key ${keyId} has expired`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Schemes from "schemes" form field, SIGNING_SCHEMES (v1 for app bundles) when omitted
+ * 
+ * @throws Error on unknown scheme or v2/v3 requested for an app bundle
+ */
+function requestedSchemes(req: express.Request, type: ArtifactType): SignatureScheme[] {
+  if (typeof req.body?.schemes !== 'string') {
+    return type === 'aab' ? ['v1'] : config.signing.defaultSchemes;
+  }
+
+  const schemes = parseSignatureSchemes(req.body.schemes);
+  if (type === 'aab' && schemes.some(s => s !== 'v1')) {
+    throw new Error('App bundles support only v1 (JAR) signing');
+  }
+  return schemes;
+}
+
+/**
+ * Reads pre-signed URL options from sign request form fields
+ * 
+ * @returns Link options or null if plain download URL was requested
+ * @throws Error if pre-signed URLs are disabled or values are invalid
+ */
+function parseLinkOptions(body: Record<string, unknown> | undefined): DownloadLinkOptions | null {
+  if (body?.presignedUrl !== 'true') {
+    return null;
+  }
+
+  if (!downloadLinkService.enabled) {
+    throw new Error('Pre-signed download URLs are not configured (DOWNLOAD_URL_SECRET)');
+  }
+
+  return {
+    expiresInSeconds: parsePositiveInt(
+      body.urlExpiresIn,
+      config.downloadLinks.defaultTtlSeconds,
+      config.upload.retentionHours * 60 * 60,
+      'urlExpiresIn'
+    ),
+    maxUses: parsePositiveInt(body.urlMaxUses, config.downloadLinks.defaultMaxUses, MAX_LINK_USES, 'urlMaxUses'),
+  };
+}
+
+/**
+ * Uploaded file or file extracted from uploaded ZIP
+ */
+export type UploadedFile = Pick<Express.Multer.File, 'path' | 'originalname' | 'size'>;
+
+/**
+ * Validates uploaded file, removing it when invalid
+ * 
+ * @returns Decoded manifest (null for AAB)
+ * @throws JobFailure with validation error in details
+ */
+async function validateUpload(
+  req: express.Request,
+  file: UploadedFile,
+  type: ArtifactType
+): Promise<ApkManifestInfo | null> {
+  try {
+    return await validateArtifactFile(file.path, type);
+  } catch (validationError: any) {
+    await safeRemove(file.path);
+    metricsService.recordValidationRejection(validationError.message);
+    
+    logger.warn(`Invalid ${ARTIFACT_FORMATS[type].label} upload attempt`, {
+      error: validationError.message,
+      originalName: file.originalname,
+      size: file.size,
+      ip: req.ip,
+      requester: req.auth?.name,
+    });
+    
+    throw new JobFailure(`Invalid ${ARTIFACT_FORMATS[type].label} file`, validationError.message);
+  }
+}
+
+/**
+ * Checks package name of validated upload against allowlist of the signing key,
+ * removing the upload and writing an audit entry when refused
+ * 
+ * @throws JobFailure with 403 status if key may not sign this package
+ */
+async function enforcePackagePolicy(
+  req: express.Request,
+  file: UploadedFile,
+  keyId: string,
+  manifest: ApkManifestInfo | null
+): Promise<void> {
+  const { allowedPackages, keyAlias } = keystoreService.get(keyId);
+  const packageName = manifest?.packageName ?? null;
+
+  if (isPackageAllowed(allowedPackages, packageName)) {
+    return;
+  }
+
+  const inputSha256 = await sha256File(file.path);
+  await safeRemove(file.path);
+
+  await auditService.record({
+    event: 'sign.package_refused',
+    requester: req.auth?.name,
+    ip: req.ip,
+    keyId,
+    keyAlias,
+    packageName,
+    inputSha256,
+    details: `Allowed packages: ${allowedPackages?.join(', ')}`,
+  });
+
+  throw new JobFailure(
+    `Forbidden: key ${keyId} is not allowed to sign this package`,
+    packageName === null
+      ? 'Package name of app bundles cannot be verified, key accepts only allowlisted APK packages'
+      : `Package ${packageName} is not in the allowlist of key ${keyId}`,
+    403
+  );
+}
+
+/**
+ * Applies manifest rules of the signing key, removing the upload when a "reject" rule is violated
+ * 
+ * @returns Violated "warn" rules
+ * @throws JobFailure listing violated rules
+ */
+async function enforceManifestRules(
+  req: express.Request,
+  file: UploadedFile,
+  keyId: string,
+  manifest: ApkManifestInfo | null
+): Promise<ManifestRuleViolation[]> {
+  // App bundle manifests are not decoded, rules apply to APK uploads
+  if (!manifest) {
+    return [];
+  }
+
+  const { manifestRules, keyAlias } = keystoreService.get(keyId);
+  const violations = checkManifestRules(manifest, manifestRules);
+  if (violations.length === 0) {
+    return [];
+  }
+
+  if (!violations.some(v => v.action === 'reject')) {
+    logger.warn('Manifest rule warnings', {
+      keyId,
+      packageName: manifest.packageName,
+      rules: violations.map(v => v.rule),
+      originalName: file.originalname,
+      requester: req.auth?.name,
+    });
+    return violations;
+  }
+
+  const inputSha256 = await sha256File(file.path);
+  await safeRemove(file.path);
+
+  await auditService.record({
+    event: 'sign.manifest_rejected',
+    requester: req.auth?.name,
+    ip: req.ip,
+    keyId,
+    keyAlias,
+    packageName: manifest.packageName,
+    inputSha256,
+    details: violations.map(v => `${v.rule}:${v.action}`).join(', '),
+  });
+
+  throw new JobFailure(
+    'APK violates manifest rules of the signing key',
+    violations.map(v => v.message).join('; '),
+    400,
+    violations
+  );
+}
+
+/**
+ * Applies MAX_FILES_PER_DIRECTORY before signing, leaving room in storage for the files about to be signed
+ * Files held by requests in progress are never removed
+ */
+async function enforceLimits(newFiles: number): Promise<void> {
+  // maxFilesPerDirectory already leaves room for one file
+  const storageLimit = Math.max(0, config.upload.maxFilesPerDirectory + 1 - newFiles);
+
+  await Promise.all([
+    enforceFileLimit(path.join(config.upload.dir, 'incoming'), config.upload.maxFilesPerDirectory),
+    enforceStorageLimit(storageService, storageLimit, key => artifactService.isHeld(key)),
+  ]);
+}
+
+/**
+ * Signs validated upload, records artifact metadata and builds response
+ * 
+ * @returns Response and stored artifact record
+ */
+async function signUpload(
+  req: express.Request,
+  file: UploadedFile,
+  options: SignOptions,
+  linkOptions: DownloadLinkOptions | null,
+  manifest: ApkManifestInfo | null,
+  warnings: ManifestRuleViolation[]
+): Promise<{ response: SignResponse; record: ArtifactRecord }> {
+  const inputSha256 = await sha256File(file.path);
+  const { fileId, filename, type, schemes, keyId, size, sha256, alignment, splits } = await signingService.signApk(
+    file.path, 
+    file.originalname,
+    options
+  );
+
+  const createdAt = new Date();
+  const expiresAt = new Date(createdAt.getTime() + config.upload.retentionHours * 60 * 60 * 1000);
+
+  const record: ArtifactRecord = {
+    fileId,
+    type,
+    originalName: file.originalname,
+    filename,
+    size,
+    sha256,
+    keyId,
+    schemes,
+    requester: req.auth?.name,
+    createdAt: createdAt.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+  };
+  await artifactService.add(record);
+
+  await auditService.record({
+    event: 'sign.success',
+    requester: req.auth?.name,
+    ip: req.ip,
+    keyId,
+    keyAlias: keystoreService.get(keyId).keyAlias,
+    packageName: manifest?.packageName,
+    inputSha256,
+    outputSha256: sha256,
+    fileId,
+  });
+
+  const response: SignResponse = {
+    success: true,
+    downloadUrl: `/api/download/${fileId}`,
+    filename,
+    expiresAt: expiresAt.toISOString(),
+    type,
+    schemes,
+    keyId,
+    manifest,
+    alignment,
+  };
+
+  if (warnings.length > 0) {
+    response.warnings = warnings;
+  }
+
+  if (splits) {
+    response.splits = splits;
+  }
+
+  if (linkOptions) {
+    const link = await downloadLinkService.issue(record, linkOptions);
+    response.downloadUrl = link.url;
+    response.downloadUrlExpiresAt = link.expiresAt;
+    response.downloadUrlMaxUses = link.maxUses;
+  }
+
+  logger.info(`${ARTIFACT_FORMATS[type].label} signed successfully`, { 
+    fileId, 
+    filename,
+    schemes,
+    keyId,
+    packageName: manifest?.packageName,
+    versionCode: manifest?.versionCode,
+    originalName: file.originalname,
+    requester: req.auth?.name,
+  });
+
+  return { response, record };
+}
 
 export async function handleSign(req: express.Request, res: express.Response) {
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file uploaded' });
+  }
+
+  return signUploadedFile(req, res, req.file);
+}
+
+/**
+ * Signs received file and sends response, shared by multipart and resumable uploads
+ * The file is removed on every failure
+ *
+ * @param file - Received file in incoming directory
+ */
+export async function signUploadedFile(req: express.Request, res: express.Response, file: UploadedFile) {
   try {
-    if (!req.file) {
-      return res.status(400).json({ error: 'No file uploaded' });
-    }
+    // Upload must survive incoming file limit pruning while it waits in the signing queue
+    res.once('close', holdFiles(file.path));
 
     logger.info('APK upload received', {
-      originalName: req.file.originalname,
-      size: req.file.size,
+      originalName: file.originalname,
+      size: file.size,
       ip: req.ip,
+      requester: req.auth?.name,
     });
 
+    const type = detectArtifactType(file.originalname);
+
+    const keyId = requestedKeyId(req);
+    const refusal = await checkKeyAccess(req, keyId);
+    if (refusal) {
+      await safeRemove(file.path);
+      return res.status(refusal.status).json({ error: refusal.error });
+    }
+
+    let schemes: SignatureScheme[];
     try {
-      await validateApkFile(req.file.path);
-    } catch (validationError: any) {
-      await safeRemove(req.file.path);
-      
-      logger.warn('Invalid APK upload attempt', {
-        error: validationError.message,
-        originalName: req.file.originalname,
-        size: req.file.size,
-        ip: req.ip,
+      schemes = requestedSchemes(req, type);
+    } catch (schemesError: any) {
+      await safeRemove(file.path);
+      return res.status(400).json({ error: schemesError.message });
+    }
+
+    let linkOptions: DownloadLinkOptions | null;
+    try {
+      linkOptions = parseLinkOptions(req.body);
+    } catch (linkError: any) {
+      await safeRemove(file.path);
+      return res.status(400).json({ error: linkError.message });
+    }
+
+    const options: SignOptions = { schemes, type, keyId };
+
+    if (req.query.async === 'true') {
+      // Job outlives the response, it holds the upload until it finishes
+      const releaseInput = holdFiles(file.path);
+      let jobId: string;
+
+      try {
+        jobId = jobService.enqueue(async (setStatus) => {
+          try {
+            setStatus('validating');
+            const manifest = await validateUpload(req, file, type);
+            await enforcePackagePolicy(req, file, keyId, manifest);
+            const warnings = await enforceManifestRules(req, file, keyId, manifest);
+
+            setStatus('signing');
+            try {
+              await enforceLimits(1);
+              const { response } = await signUpload(req, file, options, linkOptions, manifest, warnings);
+              return response;
+            } catch (error) {
+              await safeRemove(file.path);
+              throw error;
+            }
+          } finally {
+            releaseInput();
+          }
+        }, req.auth?.name);
+      } catch (error) {
+        releaseInput();
+        throw error;
+      }
+
+      const accepted: JobAcceptedResponse = {
+        success: true,
+        jobId,
+        status: 'queued',
+        statusUrl: `/api/jobs/${jobId}`,
+      };
+
+      return res.status(202).json(accepted);
+    }
+
+    const { response } = await signingPool.run(async () => {
+      const manifest = await validateUpload(req, file, type);
+      await enforcePackagePolicy(req, file, keyId, manifest);
+      const warnings = await enforceManifestRules(req, file, keyId, manifest);
+      await enforceLimits(1);
+      return signUpload(req, file, options, linkOptions, manifest, warnings);
+    });
+
+    res.json(response);
+  } catch (error: any) {
+    if (error instanceof JobFailure) {
+      return res.status(error.status).json({ 
+        error: error.message,
+        details: error.details,
+        violations: error.violations
       });
-      
-      return res.status(400).json({ 
-        error: 'Invalid APK file',
-        details: validationError.message
+    }
+
+    if (error instanceof QueueFullError) {
+      await safeRemove(file.path);
+
+      res.setHeader('Retry-After', String(error.retryAfterSeconds));
+      return res.status(503).json({
+        error: error.message,
+        retryAfter: error.retryAfterSeconds
       });
     }
 
-    const dirs = ['incoming', 'signed'].map(d => path.join(config.upload.dir, d));
-    await Promise.all(dirs.map(dir => 
-      enforceFileLimit(dir, config.upload.maxFilesPerDirectory)
-    ));
+    logger.error('Sign endpoint error', error, {
+      originalName: file.originalname,
+      ip: req.ip,
+      requester: req.auth?.name,
+    });
+    
+    await safeRemove(file.path);
+    
+    res.status(500).json({ 
+      error: error.message || 'Failed to sign APK'
+    });
+  }
+};
 
-    const { fileId, filename } = await signingService.signApk(
-      req.file.path, 
-      req.file.originalname
-    );
+/**
+ * Validates and signs one file of a batch
+ * Failures are reported in the result instead of failing the whole batch
+ */
+async function signBatchFile(
+  req: express.Request,
+  file: UploadedFile & { name: string },
+  keyId: string,
+  linkOptions: DownloadLinkOptions | null
+): Promise<{ result: BatchSignFileResult; record?: ArtifactRecord }> {
+  const type = detectArtifactType(file.originalname);
 
-    const expiresAt = new Date(Date.now() + config.upload.retentionHours * 60 * 60 * 1000);
+  try {
+    let schemes: SignatureScheme[];
+    try {
+      schemes = requestedSchemes(req, type);
+    } catch (schemesError: any) {
+      throw new JobFailure(schemesError.message);
+    }
 
-    const response: SignResponse = {
-      success: true,
-      downloadUrl: `/api/download/${fileId}`,
+    const manifest = await validateUpload(req, file, type);
+    await enforcePackagePolicy(req, file, keyId, manifest);
+    const warnings = await enforceManifestRules(req, file, keyId, manifest);
+    const { response, record } = await signUpload(req, file, { schemes, type, keyId }, linkOptions, manifest, warnings);
+
+    return { result: { name: file.name, success: true, signed: response }, record };
+  } catch (error: any) {
+    if (error instanceof JobFailure) {
+      return {
+        result: {
+          name: file.name,
+          success: false,
+          status: error.status,
+          error: error.message,
+          details: error.details,
+          violations: error.violations,
+        },
+      };
+    }
+
+    logger.error('Batch file signing failed', error, {
+      name: file.name,
+      keyId,
+      requester: req.auth?.name,
+    });
+    return { result: { name: file.name, success: false, status: 500, error: error.message || 'Failed to sign APK' } };
+  }
+}
+
+/**
+ * Packs signed files of a batch into one ZIP artifact
+ */
+async function storeBatchArchive(
+  req: express.Request,
+  records: ArtifactRecord[],
+  keyId: string,
+  originalName: string,
+  linkOptions: DownloadLinkOptions | null
+): Promise<NonNullable<BatchSignResponse['archive']>> {
+  const files = await Promise.all(records.map(async record => {
+    const data = await storageService.getObject(artifactKey(record.fileId, record.type));
+    if (!data) {
+      throw new Error(`Signed file ${record.filename} is no longer in storage`);
+    }
+    return { filename: record.filename, data };
+  }));
+
+  const fileId = uuidv4();
+  const archivePath = path.join(config.upload.dir, 'incoming', `${fileId}.zip`);
+  const filename = `${path.parse(sanitizeFilename(originalName)).name}-signed.zip`;
+  const releaseArchive = holdFiles(archivePath);
+
+  try {
+    await fs.writeFile(archivePath, createArchive(files));
+    const { size } = await fs.stat(archivePath);
+    const sha256 = await sha256File(archivePath);
+    await storageService.putFile(artifactKey(fileId, 'zip'), archivePath, ARTIFACT_FORMATS.zip.contentType);
+
+    const createdAt = new Date();
+    const expiresAt = new Date(createdAt.getTime() + config.upload.retentionHours * 60 * 60 * 1000);
+    const record: ArtifactRecord = {
+      fileId,
+      type: 'zip',
+      originalName,
       filename,
+      size,
+      sha256,
+      keyId,
+      schemes: [...new Set(records.flatMap(r => r.schemes))].sort(),
+      requester: req.auth?.name,
+      createdAt: createdAt.toISOString(),
       expiresAt: expiresAt.toISOString(),
     };
+    await artifactService.add(record);
 
-    logger.info('APK signed successfully', { 
-      fileId, 
+    const archive: NonNullable<BatchSignResponse['archive']> = {
+      downloadUrl: `/api/download/${fileId}`,
       filename,
-      originalName: req.file.originalname,
+      expiresAt: record.expiresAt,
+      size,
+    };
+
+    if (linkOptions) {
+      const link = await downloadLinkService.issue(record, linkOptions);
+      archive.downloadUrl = link.url;
+      archive.downloadUrlExpiresAt = link.expiresAt;
+      archive.downloadUrlMaxUses = link.maxUses;
+    }
+
+    return archive;
+  } finally {
+    await safeRemove(archivePath);
+    releaseArchive();
+  }
+}
+
+export async function handleSignBatch(req: express.Request, res: express.Response) {
+  const uploaded = (req.files as Express.Multer.File[] | undefined) ?? [];
+  // Everything received or extracted is removed when the batch ends, signed inputs are already gone
+  const received: string[] = uploaded.map(file => file.path);
+  // Extracted files and signed outputs are kept out of limit pruning until the batch ends
+  const releases: Array<() => void> = [];
+  const held: string[] = [];
+
+  try {
+    if (uploaded.length === 0) {
+      return res.status(400).json({ error: 'No files uploaded' });
+    }
+
+    logger.info('Batch upload received', {
+      files: uploaded.map(file => file.originalname),
+      size: uploaded.reduce((sum, file) => sum + file.size, 0),
+      ip: req.ip,
+      requester: req.auth?.name,
+    });
+
+    const keyId = requestedKeyId(req);
+    const refusal = await checkKeyAccess(req, keyId);
+    if (refusal) {
+      return res.status(refusal.status).json({ error: refusal.error });
+    }
+
+    let linkOptions: DownloadLinkOptions | null;
+    try {
+      if (typeof req.body?.schemes === 'string') {
+        parseSignatureSchemes(req.body.schemes);
+      }
+      linkOptions = parseLinkOptions(req.body);
+    } catch (optionsError: any) {
+      return res.status(400).json({ error: optionsError.message });
+    }
+
+    let files: Array<UploadedFile & { name: string }> = uploaded.map(file => ({
+      name: file.originalname,
+      originalname: file.originalname,
+      path: file.path,
+      size: file.size,
+    }));
+
+    const zip = uploaded.find(isZipUpload);
+    if (zip) {
+      if (uploaded.length > 1) {
+        return res.status(400).json({ error: 'ZIP of APKs must be the only uploaded file' });
+      }
+
+      try {
+        files = await extractArtifacts(zip.path, path.dirname(zip.path), {
+          maxEntries: MAX_BATCH_FILES,
+          maxEntrySize: config.upload.maxFileSize,
+        });
+      } catch (archiveError: any) {
+        metricsService.recordValidationRejection(archiveError.message);
+        logger.warn('Invalid batch archive', {
+          error: archiveError.message,
+          originalName: zip.originalname,
+          ip: req.ip,
+          requester: req.auth?.name,
+        });
+        return res.status(400).json({ error: 'Invalid ZIP archive', details: archiveError.message });
+      }
+
+      received.push(...files.map(file => file.path));
+      releases.push(holdFiles(...files.map(file => file.path)));
+      await safeRemove(zip.path);
+      if (files.length === 0) {
+        return res.status(400).json({ error: 'ZIP archive contains no APK or AAB files' });
+      }
+    }
+
+    const withArchive = req.body?.archive === 'true';
+
+    const response = await signingPool.run(async (): Promise<BatchSignResponse> => {
+      const results: BatchSignFileResult[] = [];
+      const records: ArtifactRecord[] = [];
+
+      // Once for the whole batch, pruning per file could remove earlier outputs of the same batch
+      await enforceLimits(files.length + (withArchive ? 1 : 0));
+
+      // One after another: the batch holds a single slot of the signing queue
+      for (const file of files) {
+        const { result, record } = await signBatchFile(req, file, keyId, linkOptions);
+        results.push(result);
+        if (record) {
+          records.push(record);
+          held.push(record.fileId);
+          await artifactService.hold(record.fileId);
+        }
+      }
+
+      const batch: BatchSignResponse = {
+        success: records.length === files.length,
+        signed: records.length,
+        failed: files.length - records.length,
+        results,
+      };
+
+      if (withArchive && records.length > 0) {
+        batch.archive = await storeBatchArchive(req, records, keyId, zip?.originalname ?? 'batch', linkOptions);
+      }
+
+      return batch;
+    });
+
+    logger.info('Batch signing completed', {
+      keyId,
+      signed: response.signed,
+      failed: response.failed,
+      archive: response.archive?.filename,
+      requester: req.auth?.name,
     });
 
     res.json(response);
   } catch (error: any) {
-    logger.error('Sign endpoint error', error, {
-      originalName: req.file?.originalname,
+    if (error instanceof QueueFullError) {
+      res.setHeader('Retry-After', String(error.retryAfterSeconds));
+      return res.status(503).json({
+        error: error.message,
+        retryAfter: error.retryAfterSeconds
+      });
+    }
+
+    logger.error('Batch sign endpoint error', error, {
+      files: uploaded.map(file => file.originalname),
       ip: req.ip,
+      requester: req.auth?.name,
     });
-    
-    if (req.file?.path) {
-      await safeRemove(req.file.path);
+
+    res.status(500).json({
+      error: error.message || 'Failed to sign batch'
+    });
+  } finally {
+    await Promise.all(received.map(safeRemove));
+    releases.forEach(release => release());
+    await artifactService.release(held);
+  }
+};
+
+export async function handleVerify(req: express.Request, res: express.Response) {
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file uploaded' });
+  }
+
+  try {
+    logger.info('APK verification requested', {
+      originalName: req.file.originalname,
+      size: req.file.size,
+      ip: req.ip,
+      requester: req.auth?.name,
+    });
+
+    try {
+      await validateApkFile(req.file.path);
+    } catch (validationError: any) {
+      metricsService.recordValidationRejection(validationError.message);
+      logger.warn('Invalid APK verification attempt', {
+        error: validationError.message,
+        originalName: req.file.originalname,
+        ip: req.ip,
+        requester: req.auth?.name,
+      });
+
+      return res.status(400).json({
+        error: 'Invalid APK file',
+        details: validationError.message
+      });
     }
-    
-    res.status(500).json({ 
-      error: error.message || 'Failed to sign APK'
+
+    const response: VerifyResponse = await verificationService.verifyApk(req.file.path);
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Verify endpoint error', error, {
+      originalName: req.file.originalname,
+      ip: req.ip,
+      requester: req.auth?.name,
+    });
+
+    res.status(500).json({
+      error: error.message || 'Failed to verify APK'
     });
+  } finally {
+    await safeRemove(req.file.path);
   }
 };
 
@@ -118,31 +918,74 @@ export async function handleDownload(req: express.Request, res: express.Response
       return res.status(400).json({ error: 'File ID is required' });
     }
     
-    const filePath = safeFilePath(
-      path.join(config.upload.dir, 'signed'),
-      fileId,
-      'apk'
-    );
+    const record = await artifactService.get(sanitizeFileId(fileId));
+    const key = record && artifactKey(fileId, record.type);
+    const object = record && key && !isExpired(record) ? await storageService.stat(key) : null;
 
-    if (!(await fs.pathExists(filePath))) {
-      logger.warn('File not found for download', { fileId, ip: req.ip });
+    if (!record || !key || !object) {
+      logger.warn('File not found for download', { fileId, ip: req.ip, requester: req.auth?.name });
       return res.status(404).json({ error: 'File not found or expired' });
     }
 
-    logger.info('File download started', { fileId, ip: req.ip });
+    const etag = `"${record.sha256}"`;
+    const lastModified = object.lastModified.toUTCString();
+
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('ETag', etag);
+    res.setHeader('Last-Modified', lastModified);
+
+    // If-None-Match / If-Modified-Since against headers above
+    const notModified = req.fresh;
+    const range = notModified ? null : parseDownloadRange(req, object.size, etag, lastModified);
+
+    if (req.query.signature !== undefined) {
+      const rejection = await downloadLinkService.redeem(record, req.query, linkAccess(req.method, notModified, range));
+
+      if (rejection) {
+        logger.warn('Pre-signed download link rejected', { fileId, reason: rejection, ip: req.ip });
+        return rejection === 'invalid'
+          ? res.status(403).json({ error: 'Invalid download link' })
+          : res.status(410).json({ error: `Download link ${rejection}` });
+      }
+    }
+
+    if (notModified) {
+      return res.status(304).end();
+    }
+
+    if (range === 'unsatisfiable') {
+      res.setHeader('Content-Range', `bytes */${object.size}`);
+      return res.status(416).json({ error: 'Requested range not satisfiable' });
+    }
+
+    const format = ARTIFACT_FORMATS[record.type];
+
+    res.setHeader('Content-Type', format.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${record.filename}"`);
+
+    if (range) {
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${object.size}`);
+      res.setHeader('Content-Length', String(range.end - range.start + 1));
+    } else {
+      res.setHeader('Content-Length', String(object.size));
+    }
+
+    if (req.method === 'HEAD') {
+      return res.end();
+    }
 
-    res.setHeader('Content-Type', 'application/vnd.android.package-archive');
-    res.setHeader('Content-Disposition', `attachment; filename="app-signed.apk"`);
+    logger.info('File download started', { fileId, range, ip: req.ip, requester: req.auth?.name });
 
-    const fileStream = fs.createReadStream(filePath);
+    const fileStream = await storageService.createReadStream(key, range ?? undefined);
     fileStream.pipe(res);
 
     fileStream.on('end', () => {
-      logger.info('File download completed', { fileId });
+      logger.info('File download completed', { fileId, requester: req.auth?.name });
     });
 
     fileStream.on('error', (error) => {
-      logger.error('File stream error', error, { fileId });
+      logger.error('File stream error', error, { fileId, requester: req.auth?.name });
       if (!res.headersSent) {
         res.status(500).json({ error: 'Failed to download file' });
       }
@@ -153,10 +996,11 @@ export async function handleDownload(req: express.Request, res: express.Response
     logger.error('Download endpoint error', error, {
       fileId,
       ip: req.ip,
+      requester: req.auth?.name,
     });
     
     if (error.message.includes('Invalid file ID') || error.message.includes('Path traversal')) {
-      logger.warn('Path traversal attempt detected', { fileId, ip: req.ip });
+      logger.warn('Path traversal attempt detected', { fileId, ip: req.ip, requester: req.auth?.name });
       return res.status(400).json({ error: 'Invalid file ID format' });
     }
     
@@ -0,0 +1,199 @@
+import express from 'express';
+import { config } from '../config.js';
+import { authMiddleware, requireOperation } from '../middleware/auth.js';
+import { trackRequest } from '../middleware/metrics.js';
+import { signLimiter } from '../middleware/rateLimiter.js';
+import { chunkedUploadService, UploadError } from '../services/chunkedUpload.service.js';
+import type { ChunkedUploadSession } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { sanitizeFileId } from '../utils/validation.js';
+import { signUploadedFile } from './sign.routes.js';
+
+const router = express.Router();
+
+const TUS_VERSION = '1.0.0';
+
+/**
+ * Resumable uploads, compatible with tus 1.0 clients (creation and termination extensions)
+ *
+ * 1. POST   /api/uploads                 - create upload (Upload-Length, Upload-Metadata: filename, sha256)
+ * 2. PATCH  /api/uploads/:uploadId       - append chunk at Upload-Offset (PUT is accepted as well)
+ *    HEAD   /api/uploads/:uploadId       - current offset to resume after failure
+ * 3. POST   /api/uploads/:uploadId/complete - verify SHA-256 and sign (same fields as POST /api/sign)
+ *    DELETE /api/uploads/:uploadId       - abort upload
+ *
+ * Protection:
+ * - Authentication required (token with "sign" operation), uploads are visible only to their creator
+ * - File size limit and SHA-256 verification of assembled file
+ * - Rate limiting of /complete as a regular signing request
+ */
+router.post('/uploads', authMiddleware, requireOperation('sign'), handleCreateUpload);
+router.head('/uploads/:uploadId', authMiddleware, requireOperation('sign'), handleUploadStatus);
+router.patch('/uploads/:uploadId', authMiddleware, requireOperation('sign'), handleUploadChunk);
+router.put('/uploads/:uploadId', authMiddleware, requireOperation('sign'), handleUploadChunk);
+router.delete('/uploads/:uploadId', authMiddleware, requireOperation('sign'), handleDeleteUpload);
+router.post('/uploads/:uploadId/complete', trackRequest('sign'), signLimiter, authMiddleware, requireOperation('sign'), handleCompleteUpload);
+
+/**
+ * Parses tus Upload-Metadata header: "key base64value,key base64value"
+ */
+function parseUploadMetadata(header: string | undefined): Record<string, string> {
+  const metadata: Record<string, string> = {};
+
+  for (const pair of (header ?? '').split(',')) {
+    const [key, value = ''] = pair.trim().split(' ');
+    if (key) {
+      metadata[key] = Buffer.from(value, 'base64').toString('utf8');
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Loads upload owned by requester
+ *
+ * @returns Session or null if response was already sent
+ */
+async function findUpload(req: express.Request, res: express.Response): Promise<ChunkedUploadSession | null> {
+  const { uploadId } = req.params;
+
+  try {
+    sanitizeFileId(uploadId ?? '');
+  } catch {
+    res.status(400).json({ error: 'Invalid upload ID format' });
+    return null;
+  }
+
+  const session = await chunkedUploadService.get(uploadId!);
+
+  if (!session || session.requester !== req.auth?.name) {
+    res.status(404).json({ error: 'Upload not found or expired' });
+    return null;
+  }
+
+  return session;
+}
+
+function sendUploadError(req: express.Request, res: express.Response, error: any, message: string) {
+  if (error instanceof UploadError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+
+  logger.error(message, error, { uploadId: req.params.uploadId, ip: req.ip, requester: req.auth?.name });
+  res.status(500).json({ error: message });
+}
+
+export async function handleCreateUpload(req: express.Request, res: express.Response) {
+  // OPTIONS preflight is answered by CORS middleware, so capabilities are announced here
+  res.setHeader('Tus-Resumable', TUS_VERSION);
+  res.setHeader('Tus-Version', TUS_VERSION);
+  res.setHeader('Tus-Extension', 'creation,termination');
+  res.setHeader('Tus-Max-Size', String(config.upload.maxFileSize));
+
+  // tus clients send headers, plain HTTP clients may send JSON body instead
+  const metadata = parseUploadMetadata(req.header('Upload-Metadata'));
+  const filename = metadata.filename ?? req.body?.filename;
+  const sha256 = metadata.sha256 ?? req.body?.sha256;
+  const length = Number(req.header('Upload-Length') ?? req.body?.length);
+
+  if (typeof filename !== 'string' || typeof sha256 !== 'string') {
+    return res.status(400).json({ error: 'filename and sha256 are required' });
+  }
+
+  try {
+    const session = await chunkedUploadService.create({
+      filename,
+      length,
+      sha256,
+      requester: req.auth?.name,
+    });
+
+    const uploadUrl = `/api/uploads/${session.uploadId}`;
+    res.setHeader('Location', uploadUrl);
+    res.setHeader('Upload-Offset', '0');
+    res.status(201).json({
+      uploadId: session.uploadId,
+      uploadUrl,
+      completeUrl: `${uploadUrl}/complete`,
+      offset: 0,
+      length: session.length,
+    });
+  } catch (error) {
+    sendUploadError(req, res, error, 'Failed to create upload');
+  }
+}
+
+export async function handleUploadStatus(req: express.Request, res: express.Response) {
+  res.setHeader('Tus-Resumable', TUS_VERSION);
+  res.setHeader('Cache-Control', 'no-store');
+
+  const session = await findUpload(req, res);
+  if (!session) return;
+
+  res.setHeader('Upload-Offset', String(session.offset));
+  res.setHeader('Upload-Length', String(session.length));
+  res.status(200).end();
+}
+
+export async function handleUploadChunk(req: express.Request, res: express.Response) {
+  res.setHeader('Tus-Resumable', TUS_VERSION);
+
+  if (req.method === 'PATCH' && req.header('Content-Type') !== 'application/offset+octet-stream') {
+    return res.status(415).json({ error: 'Content-Type must be application/offset+octet-stream' });
+  }
+
+  const offset = Number(req.header('Upload-Offset'));
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    return res.status(400).json({ error: 'Upload-Offset header is required' });
+  }
+
+  try {
+    const session = await findUpload(req, res);
+    if (!session) return;
+
+    const newOffset = await chunkedUploadService.append(session, offset, req);
+
+    res.setHeader('Upload-Offset', String(newOffset));
+    res.status(204).end();
+  } catch (error) {
+    sendUploadError(req, res, error, 'Failed to store chunk');
+  }
+}
+
+export async function handleDeleteUpload(req: express.Request, res: express.Response) {
+  res.setHeader('Tus-Resumable', TUS_VERSION);
+
+  try {
+    const session = await findUpload(req, res);
+    if (!session) return;
+
+    await chunkedUploadService.remove(session.uploadId);
+    logger.info('Chunked upload aborted', { uploadId: session.uploadId, requester: req.auth?.name });
+    res.status(204).end();
+  } catch (error) {
+    sendUploadError(req, res, error, 'Failed to delete upload');
+  }
+}
+
+/**
+ * Verifies assembled file and hands it to the regular signing flow
+ */
+export async function handleCompleteUpload(req: express.Request, res: express.Response) {
+  try {
+    const session = await findUpload(req, res);
+    if (!session) return;
+
+    const completed = await chunkedUploadService.complete(session);
+
+    return signUploadedFile(req, res, {
+      path: completed.path,
+      originalname: completed.originalname,
+      size: completed.size,
+    });
+  } catch (error) {
+    sendUploadError(req, res, error, 'Failed to complete upload');
+  }
+}
+
+export default router;
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import { v4 as uuidv4 } from 'uuid';
+import type { ArtifactRecord } from '../types/index.js';
+import { artifactKey } from '../utils/artifact.utils.js';
+import { artifactService } from './artifact.service.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+async function createArtifact(): Promise<ArtifactRecord> {
+  const createdAt = new Date();
+  const record: ArtifactRecord = {
+    fileId: uuidv4(),
+    type: 'apk',
+    originalName: 'app.apk',
+    filename: 'app-signed.apk',
+    size: 1024,
+    sha256: '0'.repeat(64),
+    keyId: 'default',
+    schemes: ['v2'],
+    createdAt: createdAt.toISOString(),
+    expiresAt: new Date(createdAt.getTime() + 24 * HOUR_MS).toISOString(),
+  };
+  await artifactService.add(record);
+  return record;
+}
+
+describe('artifactService holds', () => {
+  test('held artifact is reported until released', async () => {
+    const record = await createArtifact();
+    const key = artifactKey(record.fileId, record.type);
+    expect(await artifactService.isHeld(key)).toBe(false);
+
+    await artifactService.hold(record.fileId);
+    expect(await artifactService.isHeld(key)).toBe(true);
+    expect((await artifactService.get(record.fileId))?.heldUntil).toBeDefined();
+
+    await artifactService.release([record.fileId]);
+    expect(await artifactService.isHeld(key)).toBe(false);
+    expect((await artifactService.get(record.fileId))?.heldUntil).toBeUndefined();
+  });
+
+  test('hold lapses when never released', async () => {
+    const record = await createArtifact();
+    await artifactService.hold(record.fileId);
+
+    expect(await artifactService.isHeld(artifactKey(record.fileId, record.type), Date.now() + 2 * HOUR_MS)).toBe(false);
+  });
+
+  test('unknown artifacts are not held and release ignores them', async () => {
+    expect(await artifactService.isHeld(artifactKey(uuidv4(), 'apk'))).toBe(false);
+    await artifactService.release([uuidv4()]);
+  });
+});
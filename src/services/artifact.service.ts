@@ -0,0 +1,289 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { config } from '../config.js';
+import type { ArtifactRecord } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { storageService } from './storage.service.js';
+
+const METADATA_SUFFIX = '.json';
+
+// Conditional writes lost to other replicas before update gives up
+const MAX_UPDATE_ATTEMPTS = 5;
+
+// Holds lapse after this, in case the replica holding them stops before releasing
+const HOLD_TTL_MS = 60 * 60 * 1000;
+
+function metadataKey(fileId: string): string {
+  return `${fileId}${METADATA_SUFFIX}`;
+}
+
+/**
+ * Line of the store file: full record or tombstone of deleted artifact
+ */
+type StoreLine = ArtifactRecord | { fileId: string; deleted: true };
+
+/**
+ * Persistent metadata of signed artifacts
+ * Stored as append-only JSON-lines file in upload directory, kept in memory after first read
+ * Deletions are appended as tombstones and dropped on compaction
+ * 
+ * With shared storage (S3) every record is also written next to the artifact as "<fileId>.json",
+ * so replicas can serve and list files signed by each other
+ */
+export class ArtifactService {
+  private readonly storePath: string;
+  private records: Map<string, ArtifactRecord> | null = null;
+  private loading: Promise<Map<string, ArtifactRecord>> | null = null;
+  // Serializes writes so appended lines and compaction never interleave
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor() {
+    this.storePath = path.join(config.upload.dir, 'artifacts.jsonl');
+  }
+
+  /**
+   * Adds record or replaces existing one with the same fileId
+   */
+  async add(record: ArtifactRecord): Promise<void> {
+    const records = await this.load();
+    records.set(record.fileId, record);
+    await this.append(record);
+
+    if (storageService.shared) {
+      await storageService.putObject(metadataKey(record.fileId), Buffer.from(JSON.stringify(record)), 'application/json');
+    }
+  }
+
+  /**
+   * Changes record without losing concurrent changes, e.g. download link use counters
+   * With shared storage the record is re-read from storage and written back only if no other replica
+   * changed it in the meantime, otherwise the change is applied again to the fresh record
+   * 
+   * @param change - Mutates record, returns false to leave it unchanged; may run more than once
+   * @returns Current record, null if it does not exist
+   * @throws Error if the record keeps changing concurrently
+   */
+  async update(fileId: string, change: (record: ArtifactRecord) => boolean): Promise<ArtifactRecord | null> {
+    const records = await this.load();
+
+    if (!storageService.shared) {
+      // Single replica: change runs synchronously on the cached record
+      const record = records.get(fileId);
+      if (record && change(record)) {
+        await this.append(record);
+      }
+      return record ?? null;
+    }
+
+    for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+      const current = await storageService.getVersionedObject(metadataKey(fileId));
+      const record = current && parseRecord(current.data, fileId);
+      if (!current || !record) {
+        return null;
+      }
+
+      if (!change(record)) {
+        records.set(fileId, record);
+        return record;
+      }
+
+      const data = Buffer.from(JSON.stringify(record));
+      if (await storageService.putObjectIfVersion(metadataKey(fileId), data, 'application/json', current.version)) {
+        records.set(fileId, record);
+        await this.append(record);
+        return record;
+      }
+
+      logger.debug('Artifact record changed concurrently, retrying', { fileId, attempt });
+    }
+
+    throw new Error(`Artifact ${fileId} is being updated concurrently, please retry`);
+  }
+
+  async get(fileId: string): Promise<ArtifactRecord | null> {
+    const records = await this.load();
+    const local = records.get(fileId);
+
+    if (local || !storageService.shared) {
+      return local ?? null;
+    }
+
+    const remote = await this.readShared(fileId);
+    if (remote) {
+      records.set(fileId, remote);
+    }
+    return remote;
+  }
+
+  /**
+   * Keeps artifact out of file limit pruning on every replica until released
+   * The hold is written into the record, so replicas sharing storage see it
+   */
+  async hold(fileId: string): Promise<void> {
+    const heldUntil = new Date(Date.now() + HOLD_TTL_MS).toISOString();
+    await this.update(fileId, record => {
+      record.heldUntil = heldUntil;
+      return true;
+    });
+  }
+
+  /**
+   * Releases holds, failures are only logged as the holds lapse anyway
+   */
+  async release(fileIds: string[]): Promise<void> {
+    await Promise.all(fileIds.map(async fileId => {
+      try {
+        await this.update(fileId, record => {
+          if (!record.heldUntil) return false;
+          delete record.heldUntil;
+          return true;
+        });
+      } catch (error: any) {
+        logger.warn('Failed to release artifact hold', { fileId, error: error.message });
+      }
+    }));
+  }
+
+  /**
+   * Whether artifact stored under key is held by a request in progress
+   * With shared storage the record is re-read, the cached copy may predate a hold of another replica
+   */
+  async isHeld(key: string, now = Date.now()): Promise<boolean> {
+    const fileId = path.parse(key).name;
+    const record = storageService.shared ? await this.readShared(fileId) : (await this.load()).get(fileId);
+    return !!record?.heldUntil && Date.parse(record.heldUntil) > now;
+  }
+
+  /**
+   * All known artifacts, newest first
+   * Shared storage is the source of truth when enabled
+   */
+  async list(): Promise<ArtifactRecord[]> {
+    const records = await this.load();
+    let result = [...records.values()];
+
+    if (storageService.shared) {
+      const fileIds = (await storageService.list())
+        .filter(object => object.key.endsWith(METADATA_SUFFIX))
+        .map(object => object.key.slice(0, -METADATA_SUFFIX.length));
+
+      const shared = await Promise.all(fileIds.map(fileId => this.get(fileId)));
+      result = shared.filter((r): r is ArtifactRecord => r !== null);
+    }
+
+    return result.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async remove(fileId: string): Promise<boolean> {
+    const records = await this.load();
+    const known = records.delete(fileId);
+
+    if (known) {
+      await this.append({ fileId, deleted: true });
+    }
+
+    if (storageService.shared) {
+      await storageService.delete(metadataKey(fileId));
+    }
+
+    return known;
+  }
+
+  /**
+   * Rewrites store file with live records only
+   */
+  async compact(): Promise<void> {
+    const records = await this.load();
+
+    await this.enqueueWrite(async () => {
+      const tmpPath = `${this.storePath}.tmp`;
+      const content = [...records.values()].map(r => JSON.stringify(r) + '\n').join('');
+      await fs.writeFile(tmpPath, content);
+      await fs.rename(tmpPath, this.storePath);
+    });
+  }
+
+  private load(): Promise<Map<string, ArtifactRecord>> {
+    if (this.records) {
+      return Promise.resolve(this.records);
+    }
+
+    this.loading ??= this.readStore().then(records => {
+      this.records = records;
+      return records;
+    });
+
+    return this.loading;
+  }
+
+  private async readStore(): Promise<Map<string, ArtifactRecord>> {
+    const records = new Map<string, ArtifactRecord>();
+
+    if (!(await fs.pathExists(this.storePath))) {
+      return records;
+    }
+
+    const lines = (await fs.readFile(this.storePath, 'utf8')).split('\n');
+    let skipped = 0;
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      try {
+        const entry = JSON.parse(line) as StoreLine;
+        if ('deleted' in entry) {
+          records.delete(entry.fileId);
+        } else {
+          records.set(entry.fileId, entry);
+        }
+      } catch {
+        // Partially written line after crash
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      logger.warn('Skipped malformed artifact store lines', { skipped, storePath: this.storePath });
+    }
+
+    return records;
+  }
+
+  private async readShared(fileId: string): Promise<ArtifactRecord | null> {
+    const data = await storageService.getObject(metadataKey(fileId));
+    return data && parseRecord(data, fileId);
+  }
+
+  private append(line: StoreLine): Promise<void> {
+    return this.enqueueWrite(async () => {
+      await fs.ensureDir(path.dirname(this.storePath));
+      await fs.appendFile(this.storePath, JSON.stringify(line) + '\n');
+    });
+  }
+
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(write);
+    this.writes = result.catch(error => {
+      logger.error('Artifact store write failed', error, { storePath: this.storePath });
+    });
+    return result;
+  }
+}
+
+function parseRecord(data: Buffer, fileId: string): ArtifactRecord | null {
+  try {
+    return JSON.parse(data.toString('utf8')) as ArtifactRecord;
+  } catch {
+    logger.warn('Malformed shared artifact metadata', { fileId });
+    return null;
+  }
+}
+
+/**
+ * Whether artifact retention period is over
+ */
+export function isExpired(record: ArtifactRecord, now = Date.now()): boolean {
+  return Date.parse(record.expiresAt) <= now;
+}
+
+export const artifactService = new ArtifactService();
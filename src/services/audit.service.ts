@@ -0,0 +1,205 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { config } from '../config.js';
+import type { AuditEntry, AuditEvent, AuditVerificationResult } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+// prevHash of the first entry
+const GENESIS_HASH = '0'.repeat(64);
+
+export interface AuditRecordInput {
+  event: AuditEvent;
+  requester?: string;
+  ip?: string;
+  keyId: string;
+  keyAlias: string;
+  packageName?: string | null;
+  inputSha256?: string | null;
+  outputSha256?: string | null;
+  fileId?: string;
+  details?: string;
+}
+
+export interface AuditFilter {
+  event?: AuditEvent;
+  requester?: string;
+  keyId?: string;
+  packageName?: string;
+  /** Inclusive time bounds */
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * SHA-256 over entry fields in fixed (sorted) order and hash of the previous entry
+ */
+function computeHash(entry: Omit<AuditEntry, 'hash'>): string {
+  const fields = Object.keys(entry).sort();
+  return crypto.createHash('sha256').update(JSON.stringify(entry, fields)).digest('hex');
+}
+
+/**
+ * Tamper-evident log of signing decisions
+ * Entries are appended to a JSON-lines file, each one is chained to the previous by SHA-256,
+ * so editing, removing or reordering lines breaks verification
+ */
+export class AuditService {
+  private readonly logPath: string;
+  private head: { seq: number; hash: string } | null | undefined;
+  // Serializes appends so every entry is chained to the one written right before it
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor() {
+    this.logPath = config.audit.logPath;
+  }
+
+  /**
+   * Appends entry to the audit log
+   *
+   * @throws Error if entry could not be written
+   */
+  record(input: AuditRecordInput): Promise<AuditEntry> {
+    const result = this.writes.then(async () => {
+      const head = await this.loadHead();
+
+      const entry: Omit<AuditEntry, 'hash'> = {
+        seq: (head?.seq ?? 0) + 1,
+        timestamp: new Date().toISOString(),
+        event: input.event,
+        requester: input.requester ?? null,
+        ip: input.ip ?? null,
+        keyId: input.keyId,
+        keyAlias: input.keyAlias,
+        packageName: input.packageName ?? null,
+        inputSha256: input.inputSha256 ?? null,
+        outputSha256: input.outputSha256 ?? null,
+        fileId: input.fileId ?? null,
+        details: input.details ?? null,
+        prevHash: head?.hash ?? GENESIS_HASH,
+      };
+      const chained: AuditEntry = { ...entry, hash: computeHash(entry) };
+
+      await fs.ensureDir(path.dirname(this.logPath));
+      await fs.appendFile(this.logPath, JSON.stringify(chained) + '\n', { mode: 0o600 });
+      this.head = { seq: chained.seq, hash: chained.hash };
+
+      logger.audit(chained.event, chained);
+
+      return chained;
+    });
+
+    this.writes = result.catch(error => {
+      logger.error('Audit log write failed', error, { logPath: this.logPath });
+    });
+
+    return result;
+  }
+
+  /**
+   * Entries matching filter, newest first
+   */
+  async list(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    const entries = (await this.read()).filter((e): e is AuditEntry => e !== null);
+
+    return entries
+      .filter(e =>
+        (!filter.event || e.event === filter.event) &&
+        (!filter.requester || e.requester === filter.requester) &&
+        (!filter.keyId || e.keyId === filter.keyId) &&
+        (!filter.packageName || e.packageName === filter.packageName) &&
+        (!filter.from || Date.parse(e.timestamp) >= filter.from.getTime()) &&
+        (!filter.to || Date.parse(e.timestamp) <= filter.to.getTime())
+      )
+      .reverse();
+  }
+
+  /**
+   * Checks sequence numbers and hash chain of the whole log
+   * Removing entries at the end cannot be detected from the file alone,
+   * compare returned head with a previously saved one for that
+   */
+  async verify(): Promise<AuditVerificationResult> {
+    const entries = await this.read();
+    let prevHash = GENESIS_HASH;
+    let error: AuditVerificationResult['error'];
+
+    for (const [index, entry] of entries.entries()) {
+      const line = index + 1;
+
+      if (!entry) {
+        error = { line, message: 'Malformed entry' };
+      } else if (entry.seq !== line) {
+        error = { line, message: `Expected sequence number ${line}, found ${entry.seq}` };
+      } else if (entry.prevHash !== prevHash) {
+        error = { line, message: 'Previous hash does not match, entries were removed or reordered' };
+      } else {
+        const { hash, ...rest } = entry;
+        if (computeHash(rest) !== hash) {
+          error = { line, message: 'Entry hash does not match, entry was modified' };
+        }
+        prevHash = hash;
+      }
+
+      if (error) break;
+    }
+
+    const last = entries[entries.length - 1];
+    return {
+      valid: !error,
+      entries: entries.length,
+      head: last ? { seq: last.seq, hash: last.hash } : null,
+      ...(error && { error }),
+    };
+  }
+
+  /**
+   * Parses log file, malformed lines are returned as null so line numbers stay intact
+   */
+  private async read(): Promise<(AuditEntry | null)[]> {
+    await this.writes;
+
+    if (!(await fs.pathExists(this.logPath))) {
+      return [];
+    }
+
+    const lines = (await fs.readFile(this.logPath, 'utf8')).split('\n').filter(line => line.trim());
+
+    return lines.map(line => {
+      try {
+        return JSON.parse(line) as AuditEntry;
+      } catch {
+        return null;
+      }
+    });
+  }
+
+  private async loadHead(): Promise<{ seq: number; hash: string } | null> {
+    if (this.head !== undefined) {
+      return this.head;
+    }
+
+    if (!(await fs.pathExists(this.logPath))) {
+      this.head = null;
+      return null;
+    }
+
+    // Continue the chain from the last readable entry, verification reports anything broken before it
+    const lines = (await fs.readFile(this.logPath, 'utf8')).split('\n').filter(line => line.trim());
+    this.head = null;
+
+    for (const line of lines.reverse()) {
+      try {
+        const entry = JSON.parse(line) as AuditEntry;
+        this.head = { seq: entry.seq, hash: entry.hash };
+        break;
+      } catch {
+        logger.warn('Skipping malformed audit log line', { logPath: this.logPath });
+      }
+    }
+
+    return this.head;
+  }
+}
+
+export const auditService = new AuditService();
@@ -0,0 +1,127 @@
+import type { CertificateExpiryStatus, CertificateSummary, KeystoreConfig } from '../types/index.js';
+import { loadSigningKey } from '../utils/keystore.js';
+import { logger } from '../utils/logger.js';
+import { keystoreService } from './keystore.service.js';
+import { lineageService } from './lineage.service.js';
+
+// Days before expiry when a warning is logged, each threshold once per key
+const WARNING_THRESHOLDS_DAYS = [90, 30, 7];
+
+// Days left when a certificate counts as expiring soon in /health summary
+const EXPIRING_SOON_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Watches expiry of signer certificates of all registered keystores
+ * A rotated key is as good as the first expiring certificate of its lineage, older keys still sign v1/v2 and the lineage
+ * Runs on startup and hourly together with cleanup
+ */
+export class CertificateService {
+  private statuses = new Map<string, CertificateExpiryStatus>();
+  // Smallest threshold already reported per key, so hourly checks do not repeat warnings
+  private readonly warned = new Map<string, number>();
+
+  /**
+   * Reads certificates of all keystores, logs upcoming and past expiry
+   */
+  async check(): Promise<CertificateExpiryStatus[]> {
+    const statuses = await Promise.all(keystoreService.list().map(keystore => this.checkKeystore(keystore)));
+    this.statuses = new Map(statuses.map(s => [s.keyId, s]));
+    return statuses;
+  }
+
+  /**
+   * Result of the last check
+   */
+  list(): CertificateExpiryStatus[] {
+    return [...this.statuses.values()];
+  }
+
+  /**
+   * Counts of the last check without key details, for unauthenticated health endpoint
+   */
+  summary(): CertificateSummary {
+    const statuses = this.list();
+    return {
+      total: statuses.length,
+      expiringSoon: statuses.filter(s => !s.expired && s.daysRemaining !== null && s.daysRemaining < EXPIRING_SOON_DAYS).length,
+      expired: statuses.filter(s => s.expired).length,
+      unreadable: statuses.filter(s => s.error !== undefined).length,
+    };
+  }
+
+  /**
+   * Key whose certificate has expired by now: the key itself or a key of its rotation lineage, null if none
+   * Reads certificates from key cache (reloaded when keystore changes), not from the last hourly check
+   */
+  async expiredKey(keyId: string): Promise<string | null> {
+    const certificates = await signingCertificates(keystoreService.get(keyId));
+    return certificates.find(c => c.validTo <= Date.now())?.keyId ?? null;
+  }
+
+  private async checkKeystore(keystore: KeystoreConfig): Promise<CertificateExpiryStatus> {
+    const base = { keyId: keystore.id, keyAlias: keystore.keyAlias };
+
+    try {
+      const certificates = await signingCertificates(keystore);
+      const first = certificates.reduce((a, b) => (b.validTo < a.validTo ? b : a));
+      const status: CertificateExpiryStatus = {
+        ...base,
+        validTo: new Date(first.validTo).toISOString(),
+        daysRemaining: Math.floor((first.validTo - Date.now()) / DAY_MS),
+        expired: first.validTo <= Date.now(),
+      };
+      if (first.keyId !== keystore.id) {
+        status.lineageKeyId = first.keyId;
+      }
+
+      this.report(status);
+      return status;
+    } catch (error) {
+      logger.error('Failed to read signing certificate', error, base);
+      return { ...base, validTo: null, daysRemaining: null, expired: false, error: (error as Error).message };
+    }
+  }
+
+  private report(status: CertificateExpiryStatus) {
+    const { keyId, keyAlias, validTo, daysRemaining, expired, lineageKeyId } = status;
+
+    if (expired) {
+      logger.error('Signing certificate has expired', undefined, { keyId, keyAlias, lineageKeyId, validTo });
+      return;
+    }
+
+    const threshold = WARNING_THRESHOLDS_DAYS.filter(days => daysRemaining! <= days).pop();
+    const reported = this.warned.get(keyId);
+
+    if (threshold === undefined) {
+      // Certificate was replaced with a newer one
+      this.warned.delete(keyId);
+      return;
+    }
+
+    if (reported === undefined || threshold < reported) {
+      this.warned.set(keyId, threshold);
+      logger.warn(`Signing certificate expires in less than ${threshold} days`, {
+        keyId,
+        keyAlias,
+        lineageKeyId,
+        validTo,
+        daysRemaining,
+      });
+    }
+  }
+}
+
+/**
+ * Expiry of every certificate the key signs with, lineage keys first
+ */
+async function signingCertificates(keystore: KeystoreConfig): Promise<Array<{ keyId: string; validTo: number }>> {
+  return Promise.all(lineageService.signingKeystores(keystore).map(async signing => {
+    const { certificate } = await loadSigningKey(signing);
+    return { keyId: signing.id, validTo: Date.parse(certificate.validTo) };
+  }));
+}
+
+export const certificateService = new CertificateService();
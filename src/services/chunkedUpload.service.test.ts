@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import { Readable } from 'stream';
+import { chunkedUploadService, UploadError } from './chunkedUpload.service.js';
+
+const DATA = crypto.randomBytes(64 * 1024);
+const SHA256 = crypto.createHash('sha256').update(DATA).digest('hex');
+
+async function uploadAll(sha256 = SHA256) {
+  const session = await chunkedUploadService.create({ filename: 'app.apk', length: DATA.length, sha256 });
+  await chunkedUploadService.append(session, 0, Readable.from([DATA]));
+  return (await chunkedUploadService.get(session.uploadId))!;
+}
+
+async function uploadErrorStatus(promise: Promise<unknown>): Promise<number | null> {
+  try {
+    await promise;
+    return null;
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return error.status;
+    }
+    throw error;
+  }
+}
+
+describe('chunkedUploadService.complete', () => {
+  test('moves assembled file to incoming directory', async () => {
+    const session = await uploadAll();
+    const completed = await chunkedUploadService.complete(session);
+
+    expect(completed.originalname).toBe('app.apk');
+    expect((await fs.readFile(completed.path)).equals(DATA)).toBe(true);
+    expect(await chunkedUploadService.get(session.uploadId)).toBeNull();
+  });
+
+  test('concurrent completion of the same upload gets 409', async () => {
+    const session = await uploadAll();
+
+    const [first, second] = await Promise.allSettled([
+      chunkedUploadService.complete(session),
+      chunkedUploadService.complete(session),
+    ]);
+
+    expect(first.status).toBe('fulfilled');
+    expect(second.status).toBe('rejected');
+    expect((second as PromiseRejectedResult).reason).toBeInstanceOf(UploadError);
+    expect(((second as PromiseRejectedResult).reason as UploadError).status).toBe(409);
+  });
+
+  test('upload completed by an earlier request is gone', async () => {
+    const session = await uploadAll();
+    await chunkedUploadService.complete(session);
+
+    expect(await uploadErrorStatus(chunkedUploadService.complete(session))).toBe(404);
+    expect(await uploadErrorStatus(chunkedUploadService.append(session, session.offset, Readable.from([DATA]))))
+      .toBe(404);
+  });
+
+  test('chunks and deletion are rejected while completing', async () => {
+    const session = await uploadAll();
+    const completing = chunkedUploadService.complete(session);
+
+    expect(await uploadErrorStatus(chunkedUploadService.append(session, session.offset, Readable.from([])))).toBe(409);
+    expect(await uploadErrorStatus(chunkedUploadService.remove(session.uploadId))).toBe(409);
+    await completing;
+  });
+
+  test('checksum mismatch discards the upload', async () => {
+    const session = await uploadAll('0'.repeat(64));
+
+    expect(await uploadErrorStatus(chunkedUploadService.complete(session))).toBe(400);
+    expect(await chunkedUploadService.get(session.uploadId)).toBeNull();
+  });
+});
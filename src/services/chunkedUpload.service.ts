@@ -0,0 +1,266 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Transform, type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config.js';
+import type { ChunkedUploadSession } from '../types/index.js';
+import { ARTIFACT_FORMATS, detectArtifactType, isSignableFilename } from '../utils/artifact.utils.js';
+import { safeRemove, sha256File } from '../utils/file.utils.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Upload protocol error with HTTP status for the response
+ */
+export class UploadError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+export interface CreateUploadOptions {
+  filename: string;
+  length: number;
+  /** Expected SHA-256 of the whole file (hex) */
+  sha256: string;
+  requester?: string;
+}
+
+/**
+ * File assembled from chunks, ready for validation and signing
+ */
+export interface CompletedUpload {
+  path: string;
+  originalname: string;
+  size: number;
+}
+
+// Limits how many unfinished uploads may occupy disk at once
+const MAX_PENDING_UPLOADS = 20;
+
+const LOCKED_MESSAGES = {
+  append: 'Another chunk for this upload is being written',
+  complete: 'Upload is already being completed',
+};
+
+/**
+ * Resumable uploads (tus 1.0 core protocol + creation and termination extensions)
+ * Data of unfinished upload lives in UPLOAD_DIR/chunks/<id>.part with session in <id>.json,
+ * completed file is moved to UPLOAD_DIR/incoming
+ */
+export class ChunkedUploadService {
+  private readonly chunksDir: string;
+  private readonly incomingDir: string;
+  // Uploads currently receiving a chunk or being completed, parallel requests for them are rejected
+  private readonly locked = new Map<string, 'append' | 'complete'>();
+
+  constructor() {
+    this.chunksDir = path.join(config.upload.dir, 'chunks');
+    this.incomingDir = path.join(config.upload.dir, 'incoming');
+  }
+
+  /**
+   * @throws UploadError on invalid parameters or when too many uploads are pending
+   */
+  async create(options: CreateUploadOptions): Promise<ChunkedUploadSession> {
+    if (!isSignableFilename(options.filename)) {
+      throw new UploadError('Only APK, AAB, APKS and XAPK files are allowed', 400);
+    }
+    if (!Number.isSafeInteger(options.length) || options.length <= 0) {
+      throw new UploadError('Upload-Length must be a positive integer', 400);
+    }
+    if (options.length > config.upload.maxFileSize) {
+      throw new UploadError(`File exceeds maximum size of ${config.upload.maxFileSize} bytes`, 413);
+    }
+    if (!/^[0-9a-f]{64}$/i.test(options.sha256)) {
+      throw new UploadError('sha256 must be 64 hex characters', 400);
+    }
+
+    await fs.ensureDir(this.chunksDir);
+    const pending = (await fs.readdir(this.chunksDir)).filter(f => f.endsWith('.json'));
+    if (pending.length >= MAX_PENDING_UPLOADS) {
+      throw new UploadError('Too many unfinished uploads, please retry later', 503);
+    }
+
+    const now = new Date().toISOString();
+    const session: ChunkedUploadSession = {
+      uploadId: uuidv4(),
+      filename: options.filename,
+      length: options.length,
+      offset: 0,
+      sha256: options.sha256.toLowerCase(),
+      requester: options.requester,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await fs.writeFile(this.partPath(session.uploadId), '');
+    await this.save(session);
+
+    logger.info('Chunked upload created', {
+      uploadId: session.uploadId,
+      filename: session.filename,
+      length: session.length,
+      requester: session.requester,
+    });
+
+    return session;
+  }
+
+  /**
+   * @param uploadId - Upload ID, must be validated with sanitizeFileId
+   * @returns Session or null if upload does not exist
+   */
+  async get(uploadId: string): Promise<ChunkedUploadSession | null> {
+    try {
+      const session = await fs.readJson(this.sessionPath(uploadId)) as ChunkedUploadSession;
+      // Part file is the source of truth for offset after interrupted writes
+      session.offset = (await fs.stat(this.partPath(uploadId))).size;
+      return session;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Appends chunk at the given offset
+   *
+   * @returns New offset
+   * @throws UploadError on offset mismatch, concurrent write or completion, data beyond Upload-Length
+   */
+  async append(session: ChunkedUploadSession, offset: number, chunk: Readable): Promise<number> {
+    const { uploadId } = session;
+    this.lock(uploadId, 'append');
+
+    try {
+      // Completed uploads must not be recreated by a chunk whose session was read earlier
+      if (!(await fs.pathExists(this.sessionPath(uploadId)))) {
+        throw new UploadError('Upload not found or expired', 404);
+      }
+      if (offset !== session.offset) {
+        throw new UploadError(`Upload-Offset mismatch, expected ${session.offset}`, 409);
+      }
+
+      let received = 0;
+      const remaining = session.length - session.offset;
+      const limiter = new Transform({
+        transform(data: Buffer, _encoding, callback) {
+          received += data.length;
+          if (received > remaining) {
+            callback(new UploadError('Chunk exceeds Upload-Length', 413));
+            return;
+          }
+          callback(null, data);
+        },
+      });
+
+      try {
+        await pipeline(chunk, limiter, fs.createWriteStream(this.partPath(uploadId), { flags: 'a' }));
+      } catch (error) {
+        if (error instanceof UploadError) {
+          throw error;
+        }
+        // Data written before interruption is kept, client resumes from HEAD offset
+        logger.warn('Chunk upload interrupted', { uploadId, error: (error as Error).message });
+      }
+
+      session.offset = (await fs.stat(this.partPath(uploadId))).size;
+      session.updatedAt = new Date().toISOString();
+      await this.save(session);
+
+      return session.offset;
+    } finally {
+      this.locked.delete(uploadId);
+    }
+  }
+
+  /**
+   * Verifies checksum and moves assembled file to incoming directory
+   * Upload is locked as completing until the file is moved, so chunks, deletion and
+   * a second completion of the same upload are rejected meanwhile
+   *
+   * @throws UploadError if upload is being written or completed, is incomplete or already gone,
+   *   or checksum does not match (upload is discarded)
+   */
+  async complete(session: ChunkedUploadSession): Promise<CompletedUpload> {
+    const { uploadId } = session;
+    this.lock(uploadId, 'complete');
+
+    try {
+      // Session may have been read before another request completed or extended the upload
+      const current = await this.get(uploadId);
+      if (!current) {
+        throw new UploadError('Upload not found or expired', 404);
+      }
+      if (current.offset !== current.length) {
+        throw new UploadError(`Upload is incomplete: ${current.offset} of ${current.length} bytes received`, 409);
+      }
+
+      const actual = await sha256File(this.partPath(uploadId));
+      if (actual !== current.sha256) {
+        await this.discard(uploadId);
+        logger.warn('Chunked upload checksum mismatch', { uploadId, requester: current.requester });
+        throw new UploadError('SHA-256 checksum mismatch, upload discarded', 400);
+      }
+
+      const { extension } = ARTIFACT_FORMATS[detectArtifactType(current.filename)];
+      const targetPath = path.join(this.incomingDir, `${uuidv4()}.${extension}`);
+
+      await fs.ensureDir(this.incomingDir);
+      await fs.move(this.partPath(uploadId), targetPath);
+      await safeRemove(this.sessionPath(uploadId));
+
+      logger.info('Chunked upload completed', { uploadId, size: current.length, requester: current.requester });
+
+      return {
+        path: targetPath,
+        originalname: current.filename,
+        size: current.length,
+      };
+    } finally {
+      this.locked.delete(uploadId);
+    }
+  }
+
+  /**
+   * @throws UploadError if a chunk is being written or the upload is being completed
+   */
+  async remove(uploadId: string): Promise<void> {
+    const operation = this.locked.get(uploadId);
+    if (operation) {
+      throw new UploadError(LOCKED_MESSAGES[operation], 409);
+    }
+    await this.discard(uploadId);
+  }
+
+  /**
+   * @throws UploadError if upload is already locked by another request
+   */
+  private lock(uploadId: string, operation: 'append' | 'complete') {
+    const current = this.locked.get(uploadId);
+    if (current) {
+      throw new UploadError(LOCKED_MESSAGES[current], 409);
+    }
+    this.locked.set(uploadId, operation);
+  }
+
+  private async discard(uploadId: string): Promise<void> {
+    await safeRemove(this.partPath(uploadId));
+    await safeRemove(this.sessionPath(uploadId));
+  }
+
+  private async save(session: ChunkedUploadSession): Promise<void> {
+    await fs.writeJson(this.sessionPath(session.uploadId), session);
+  }
+
+  private partPath(uploadId: string): string {
+    return path.join(this.chunksDir, `${uploadId}.part`);
+  }
+
+  private sessionPath(uploadId: string): string {
+    return path.join(this.chunksDir, `${uploadId}.json`);
+  }
+}
+
+export const chunkedUploadService = new ChunkedUploadService();
@@ -1,23 +1,33 @@
 import cron from 'node-cron';
 import path from 'path';
 import { config } from '../config.js';
+import type { StoredObjectInfo } from '../types/index.js';
+import { artifactKey } from '../utils/artifact.utils.js';
 import { getFilesByAge, safeRemove } from '../utils/file.utils.js';
 import { logger } from '../utils/logger.js';
+import { artifactService, isExpired } from './artifact.service.js';
+import { certificateService } from './certificate.service.js';
+import { storageService } from './storage.service.js';
 
 export class CleanupService {
+  // Local working directories: uploads being signed and unfinished chunked uploads
   private readonly directories: string[];
 
   constructor() {
-    this.directories = ['signed', 'incoming'].map(d => 
+    this.directories = ['incoming', 'chunks'].map(d =>
       path.join(config.upload.dir, d)
     );
   }
 
   start() {
-    cron.schedule('0 * * * *', () => this.cleanup());
-    logger.info('Cleanup service started', { 
+    cron.schedule('0 * * * *', () => {
+      this.cleanup();
+      certificateService.check();
+    });
+    logger.info('Cleanup service started', {
       schedule: 'Every hour',
-      retentionHours: config.upload.retentionHours 
+      retentionHours: config.upload.retentionHours,
+      storage: storageService.name,
     });
   }
 
@@ -36,9 +46,9 @@ export class CleanupService {
           if (now - file.mtime > maxAge) {
             await safeRemove(file.path);
             deletedCount++;
-            logger.info('File deleted', { 
-              file: file.name, 
-              age: Math.floor((now - file.mtime) / 1000 / 60) + 'min' 
+            logger.info('File deleted', {
+              file: file.name,
+              age: Math.floor((now - file.mtime) / 1000 / 60) + 'min'
             });
           }
         }
@@ -47,7 +57,70 @@ export class CleanupService {
       }
     }
 
-    logger.info('Cleanup process completed', { deletedCount });
+    try {
+      const objects = await storageService.list();
+
+      for (const object of objects) {
+        if (await this.isObjectExpired(object, now, maxAge)) {
+          await storageService.delete(object.key);
+          deletedCount++;
+          logger.info('File deleted', {
+            file: object.key,
+            storage: storageService.name,
+            age: Math.floor((now - object.lastModified.getTime()) / 1000 / 60) + 'min'
+          });
+        }
+      }
+    } catch (error) {
+      logger.error('Cleanup error in artifact storage', error, { storage: storageService.name });
+    }
+
+    const prunedRecords = await this.pruneArtifacts(now);
+
+    logger.info('Cleanup process completed', { deletedCount, prunedRecords });
+  }
+
+  /**
+   * Artifacts expire according to artifact store, objects without metadata by age
+   * Metadata objects of shared storage are handled by pruneArtifacts
+   */
+  private async isObjectExpired(object: StoredObjectInfo, now: number, maxAge: number): Promise<boolean> {
+    const { name: fileId, ext } = path.parse(object.key);
+    if (ext === '.json') {
+      return false;
+    }
+
+    const record = await artifactService.get(fileId);
+    if (record) {
+      return isExpired(record, now);
+    }
+
+    return now - object.lastModified.getTime() > maxAge;
+  }
+
+  /**
+   * Drops metadata of expired artifacts and of files removed by other means (e.g. file limit)
+   */
+  private async pruneArtifacts(now: number): Promise<number> {
+    let pruned = 0;
+
+    try {
+      for (const record of await artifactService.list()) {
+        const key = artifactKey(record.fileId, record.type);
+
+        if (isExpired(record, now) || !(await storageService.stat(key))) {
+          await storageService.delete(key);
+          await artifactService.remove(record.fileId);
+          pruned++;
+        }
+      }
+
+      await artifactService.compact();
+    } catch (error) {
+      logger.error('Artifact store cleanup error', error);
+    }
+
+    return pruned;
   }
 }
 
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { v4 as uuidv4 } from 'uuid';
+import type { ArtifactRecord } from '../types/index.js';
+import { artifactService } from './artifact.service.js';
+import { downloadLinkService, linkAccess, type DownloadLinkQuery } from './downloadLink.service.js';
+
+const MINUTE_MS = 60 * 1000;
+
+async function createArtifact(): Promise<ArtifactRecord> {
+  const createdAt = new Date();
+  const record: ArtifactRecord = {
+    fileId: uuidv4(),
+    type: 'apk',
+    originalName: 'app.apk',
+    filename: 'app-signed.apk',
+    size: 1024,
+    sha256: '0'.repeat(64),
+    keyId: 'default',
+    schemes: ['v2'],
+    createdAt: createdAt.toISOString(),
+    expiresAt: new Date(createdAt.getTime() + 24 * 60 * MINUTE_MS).toISOString(),
+  };
+  await artifactService.add(record);
+  return record;
+}
+
+async function issueLink(maxUses: number) {
+  const record = await createArtifact();
+  const { url } = await downloadLinkService.issue(record, { expiresInSeconds: 3600, maxUses });
+  const query = Object.fromEntries(new URL(url, 'http://localhost').searchParams) as DownloadLinkQuery;
+  return { record, query };
+}
+
+async function remainingUses(record: ArtifactRecord): Promise<number | undefined> {
+  return (await artifactService.get(record.fileId))?.downloadLinks?.[0]?.remainingUses;
+}
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe('linkAccess', () => {
+  test('whole file and ranges from byte 0 are downloads', () => {
+    expect(linkAccess('GET', false, null)).toBe('download');
+    expect(linkAccess('GET', false, { start: 0, end: 0 })).toBe('download');
+    expect(linkAccess('GET', false, { start: 0, end: 99 })).toBe('download');
+  });
+
+  test('ranges from other offsets are resumes', () => {
+    expect(linkAccess('GET', false, { start: 1, end: 1023 })).toBe('resume');
+  });
+
+  test('responses without file bytes are metadata', () => {
+    expect(linkAccess('HEAD', false, null)).toBe('metadata');
+    expect(linkAccess('GET', true, null)).toBe('metadata');
+    expect(linkAccess('GET', false, 'unsatisfiable')).toBe('metadata');
+  });
+});
+
+describe('downloadLinkService.redeem', () => {
+  test('download consumes a use until the link is exhausted', async () => {
+    const { record, query } = await issueLink(2);
+
+    expect(await downloadLinkService.redeem(record, query, 'download')).toBeNull();
+    expect(await downloadLinkService.redeem(record, query, 'download')).toBeNull();
+    expect(await remainingUses(record)).toBe(0);
+    expect(await downloadLinkService.redeem(record, query, 'download')).toBe('exhausted');
+  });
+
+  test('last download can be resumed shortly after its use was consumed', async () => {
+    const { record, query } = await issueLink(1);
+
+    expect(await downloadLinkService.redeem(record, query, 'download')).toBeNull();
+    expect(await downloadLinkService.redeem(record, query, 'resume')).toBeNull();
+    expect(await downloadLinkService.redeem(record, query, 'metadata')).toBeNull();
+    expect(await downloadLinkService.redeem(record, query, 'resume')).toBeNull();
+    expect(await remainingUses(record)).toBe(0);
+
+    setSystemTime(new Date(Date.now() + 16 * MINUTE_MS));
+    expect(await downloadLinkService.redeem(record, query, 'resume')).toBe('exhausted');
+    expect(await downloadLinkService.redeem(record, query, 'metadata')).toBe('exhausted');
+  });
+
+  test('range not starting at 0 consumes a use when no download was started', async () => {
+    const { record, query } = await issueLink(2);
+
+    expect(await downloadLinkService.redeem(record, query, 'resume')).toBeNull();
+    expect(await remainingUses(record)).toBe(1);
+    // Resumes within the window of that use are free
+    expect(await downloadLinkService.redeem(record, query, 'resume')).toBeNull();
+    expect(await remainingUses(record)).toBe(1);
+
+    setSystemTime(new Date(Date.now() + 16 * MINUTE_MS));
+    expect(await downloadLinkService.redeem(record, query, 'resume')).toBeNull();
+    expect(await remainingUses(record)).toBe(0);
+  });
+
+  test('HEAD and 1-byte probes do not unlock free ranged downloads', async () => {
+    const { record, query } = await issueLink(1);
+
+    expect(await downloadLinkService.redeem(record, query, 'metadata')).toBeNull();
+    expect(await remainingUses(record)).toBe(1);
+
+    // bytes=0-0 is a download and consumes the only use
+    expect(await downloadLinkService.redeem(record, query, 'download')).toBeNull();
+    expect(await remainingUses(record)).toBe(0);
+    expect(await downloadLinkService.redeem(record, query, 'download')).toBe('exhausted');
+  });
+
+  test('tampered and expired links are rejected', async () => {
+    const { record, query } = await issueLink(1);
+
+    expect(await downloadLinkService.redeem(record, { ...query, signature: 'x' + String(query.signature).slice(1) }))
+      .toBe('invalid');
+    expect(await downloadLinkService.redeem(record, { ...query, link: 'other' })).toBe('invalid');
+
+    setSystemTime(new Date(Date.now() + 2 * 60 * MINUTE_MS));
+    expect(await downloadLinkService.redeem(record, query)).toBe('expired');
+    expect(await remainingUses(record)).toBe(1);
+  });
+});
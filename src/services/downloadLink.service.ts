@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import { config } from '../config.js';
+import type { ArtifactRecord, ByteRange } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { artifactService } from './artifact.service.js';
+
+export interface DownloadLinkOptions {
+  expiresInSeconds: number;
+  maxUses: number;
+}
+
+export interface IssuedDownloadLink {
+  url: string;
+  expiresAt: string;
+  maxUses: number;
+}
+
+/**
+ * Query parameters of pre-signed download URL
+ */
+export interface DownloadLinkQuery {
+  link?: unknown;
+  expires?: unknown;
+  signature?: unknown;
+}
+
+export type LinkRejection = 'invalid' | 'expired' | 'exhausted';
+
+/**
+ * What a download request serves:
+ * - download: file bytes from the start (whole file or range starting at 0)
+ * - resume: range not starting at 0, continues a download that consumed a use
+ * - metadata: no file bytes (HEAD, 304 revalidation, 416)
+ */
+export type LinkAccess = 'download' | 'resume' | 'metadata';
+
+// How long after a consumed use resumed ranges are served without consuming another one
+const RESUME_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Classifies download request for link use counting
+ *
+ * @param notModified - Request is answered with 304
+ * @param range - Result of parseDownloadRange
+ */
+export function linkAccess(method: string, notModified: boolean, range: ByteRange | null | 'unsatisfiable'): LinkAccess {
+  if (method !== 'GET' || notModified || range === 'unsatisfiable') {
+    return 'metadata';
+  }
+  return range && range.start > 0 ? 'resume' : 'download';
+}
+
+/**
+ * Pre-signed download URLs: /api/download/<fileId>?link=<id>&expires=<unix>&signature=<hmac>
+ * HMAC proves the URL was issued by the service, remaining uses are kept in artifact metadata
+ * and changed through artifactService.update, so replicas sharing storage count the same uses
+ */
+export class DownloadLinkService {
+  get enabled(): boolean {
+    return config.downloadLinks.secret !== null;
+  }
+
+  /**
+   * Issues link for artifact and stores its use counter
+   * Link never outlives the artifact itself
+   *
+   * @throws Error if DOWNLOAD_URL_SECRET is not configured
+   */
+  async issue(record: ArtifactRecord, options: DownloadLinkOptions): Promise<IssuedDownloadLink> {
+    const expiresAtMs = Math.min(
+      Date.now() + options.expiresInSeconds * 1000,
+      Date.parse(record.expiresAt)
+    );
+    const expires = Math.floor(expiresAtMs / 1000);
+    const linkId = crypto.randomBytes(12).toString('base64url');
+    const expiresAt = new Date(expires * 1000).toISOString();
+
+    const updated = await artifactService.update(record.fileId, current => {
+      current.downloadLinks = [
+        ...(current.downloadLinks ?? []).filter(l => Date.parse(l.expiresAt) > Date.now()),
+        { id: linkId, expiresAt, remainingUses: options.maxUses },
+      ];
+      return true;
+    });
+    if (!updated) {
+      throw new Error(`Artifact ${record.fileId} not found`);
+    }
+
+    const params = new URLSearchParams({
+      link: linkId,
+      expires: String(expires),
+      signature: this.sign(record.fileId, linkId, expires),
+    });
+
+    return {
+      url: `/api/download/${record.fileId}?${params}`,
+      expiresAt,
+      maxUses: options.maxUses,
+    };
+  }
+
+  /**
+   * Checks link signature, expiry and remaining uses, consuming one use when file bytes are served
+   * Resumed ranges and metadata requests within RESUME_WINDOW_MS after a consumed use are free,
+   * later ones consume a use (resume) or need uses left (metadata)
+   *
+   * @param access - What the request serves
+   * @returns null if download is allowed, otherwise rejection reason
+   */
+  async redeem(record: ArtifactRecord, query: DownloadLinkQuery, access: LinkAccess = 'download'): Promise<LinkRejection | null> {
+    const { link, expires, signature } = query;
+
+    if (
+      !this.enabled ||
+      typeof link !== 'string' ||
+      typeof expires !== 'string' ||
+      typeof signature !== 'string' ||
+      !/^\d+$/.test(expires)
+    ) {
+      return 'invalid';
+    }
+
+    const expected = Buffer.from(this.sign(record.fileId, link, Number(expires)));
+    const provided = Buffer.from(signature);
+    if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+      return 'invalid';
+    }
+
+    if (Number(expires) * 1000 <= Date.now()) {
+      return 'expired';
+    }
+
+    // Check and decrement in one update, so concurrent requests (on any replica) cannot reuse a use
+    let rejection: LinkRejection | null = 'invalid';
+    let remainingUses: number | undefined;
+
+    await artifactService.update(record.fileId, current => {
+      // Runs again after a lost conditional write
+      remainingUses = undefined;
+      const state = current.downloadLinks?.find(l => l.id === link);
+      if (!state) {
+        rejection = 'invalid';
+        return false;
+      }
+
+      const now = Date.now();
+      const resumable = state.consumedAt !== undefined && now - Date.parse(state.consumedAt) <= RESUME_WINDOW_MS;
+      if ((access !== 'download' && resumable) || (access === 'metadata' && state.remainingUses > 0)) {
+        rejection = null;
+        return false;
+      }
+      if (state.remainingUses <= 0) {
+        rejection = 'exhausted';
+        return false;
+      }
+
+      state.remainingUses--;
+      state.consumedAt = new Date(now).toISOString();
+      remainingUses = state.remainingUses;
+      rejection = null;
+      return true;
+    });
+
+    if (remainingUses !== undefined) {
+      logger.info('Pre-signed download link used', {
+        fileId: record.fileId,
+        linkId: link,
+        remainingUses,
+      });
+    }
+
+    return rejection;
+  }
+
+  private sign(fileId: string, linkId: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', config.downloadLinks.secret ?? '')
+      .update(`${fileId}:${linkId}:${expires}`)
+      .digest('base64url');
+  }
+}
+
+export const downloadLinkService = new DownloadLinkService();
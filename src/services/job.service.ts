@@ -0,0 +1,137 @@
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config.js';
+import type { JobResponse, JobStatus, ManifestRuleViolation, SignResponse } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { signingPool } from './signingPool.service.js';
+
+interface Job {
+  id: string;
+  status: JobStatus;
+  requester?: string;
+  createdAt: number;
+  updatedAt: number;
+  result?: SignResponse;
+  error?: JobResponse['error'];
+}
+
+/**
+ * Error raised by job task to report failure with public details
+ * (e.g. validation errors that would be a 400 in synchronous mode)
+ */
+export class JobFailure extends Error {
+  /**
+   * @param status - HTTP status in synchronous mode (400 for invalid files, 403 for policy refusals)
+   * @param violations - Manifest rules of the key the file violates
+   */
+  constructor(
+    message: string,
+    readonly details?: string,
+    readonly status = 400,
+    readonly violations?: ManifestRuleViolation[]
+  ) {
+    super(message);
+    this.name = 'JobFailure';
+  }
+}
+
+export type JobTask = (setStatus: (status: JobStatus) => void) => Promise<SignResponse>;
+
+/**
+ * Asynchronous signing jobs, kept in memory of this process
+ * Status is only known to the replica that runs the job, so with several replicas
+ * job status requests must be routed to the replica that accepted the upload (sticky routing)
+ */
+export class JobService {
+  private readonly jobs = new Map<string, Job>();
+
+  /**
+   * Adds signing task to the signing pool queue
+   * Tasks run in order of submission, sharing concurrency limit with synchronous requests
+   *
+   * @returns Created job ID
+   * @throws QueueFullError if signing pool cannot accept more work
+   */
+  enqueue(task: JobTask, requester?: string): string {
+    this.pruneFinished();
+
+    const now = Date.now();
+    const job: Job = {
+      id: uuidv4(),
+      status: 'queued',
+      requester,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // Throws before the job is registered when the pool is full
+    void signingPool.run(() => this.run(job, task));
+    this.jobs.set(job.id, job);
+
+    logger.info('Signing job queued', {
+      jobId: job.id,
+      requester,
+      ...signingPool.stats(),
+    });
+
+    return job.id;
+  }
+
+  get(jobId: string): JobResponse | null {
+    const job = this.jobs.get(jobId);
+    return job ? this.toResponse(job) : null;
+  }
+
+  getRequester(jobId: string): string | undefined {
+    return this.jobs.get(jobId)?.requester;
+  }
+
+  private async run(job: Job, task: JobTask): Promise<void> {
+    const setStatus = (status: JobStatus) => {
+      job.status = status;
+      job.updatedAt = Date.now();
+    };
+
+    try {
+      job.result = await task(setStatus);
+      setStatus('done');
+      logger.info('Signing job completed', { jobId: job.id, requester: job.requester });
+    } catch (error: any) {
+      job.error = error instanceof JobFailure
+        ? { message: error.message, details: error.details, violations: error.violations }
+        : { message: error.message || 'Failed to sign APK' };
+      setStatus('failed');
+      logger.warn('Signing job failed', {
+        jobId: job.id,
+        requester: job.requester,
+        error: job.error.message,
+      });
+    }
+  }
+
+  /**
+   * Forgets finished jobs older than file retention period
+   */
+  private pruneFinished() {
+    const maxAge = config.upload.retentionHours * 60 * 60 * 1000;
+    const now = Date.now();
+
+    for (const [id, job] of this.jobs) {
+      if ((job.status === 'done' || job.status === 'failed') && now - job.updatedAt > maxAge) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+
+  private toResponse(job: Job): JobResponse {
+    return {
+      jobId: job.id,
+      status: job.status,
+      createdAt: new Date(job.createdAt).toISOString(),
+      updatedAt: new Date(job.updatedAt).toISOString(),
+      ...(job.status === 'done' && job.result && { result: job.result }),
+      ...(job.status === 'failed' && job.error && { error: job.error }),
+    };
+  }
+}
+
+export const jobService = new JobService();
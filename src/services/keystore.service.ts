@@ -0,0 +1,38 @@
+import { config } from '../config.js';
+import type { KeystoreConfig } from '../types/index.js';
+
+export class KeystoreService {
+  private readonly keystores: Map<string, KeystoreConfig>;
+  readonly defaultId: string;
+
+  constructor() {
+    this.keystores = new Map(config.keystores.entries.map(k => [k.id, k]));
+    this.defaultId = config.keystores.defaultId;
+  }
+
+  /**
+   * Returns keystore by registry ID (default keystore when ID is not given)
+   * 
+   * @throws Error if ID is not registered
+   */
+  get(keyId?: string): KeystoreConfig {
+    const id = keyId || this.defaultId;
+    const keystore = this.keystores.get(id);
+
+    if (!keystore) {
+      throw new Error(`Unknown key ID: ${id}`);
+    }
+
+    return keystore;
+  }
+
+  has(keyId: string): boolean {
+    return this.keystores.has(keyId);
+  }
+
+  list(): KeystoreConfig[] {
+    return [...this.keystores.values()];
+  }
+}
+
+export const keystoreService = new KeystoreService();
@@ -0,0 +1,87 @@
+import type { KeystoreConfig, SignerCapabilities } from '../types/index.js';
+import {
+  encodeLineageFile,
+  encodeSigningLineage,
+  type LineageSigner,
+  type SigningRotation,
+} from '../utils/apkSignatureScheme.js';
+import { DEFAULT_SIGNER_CAPABILITIES } from '../utils/configValidation.js';
+import { loadSigningKey } from '../utils/keystore.js';
+import { keystoreService } from './keystore.service.js';
+
+/**
+ * Signing lineages of rotated keys (APK Signature Scheme v3 proof-of-rotation)
+ */
+export class LineageService {
+  /**
+   * Keystore whose key signs v1 and v2: the oldest key of the lineage, so devices
+   * without v3 support keep accepting updates
+   */
+  originalKeystore(keystore: KeystoreConfig): KeystoreConfig {
+    const original = keystore.rotation?.lineage[0];
+    return original ? keystoreService.get(original.keyId) : keystore;
+  }
+
+  /**
+   * Keystores whose certificates end up in APKs signed with the key: lineage keys oldest first, then the key itself
+   */
+  signingKeystores(keystore: KeystoreConfig): KeystoreConfig[] {
+    const lineage = keystore.rotation?.lineage ?? [];
+    return [...lineage.map(node => keystoreService.get(node.keyId)), keystore];
+  }
+
+  /**
+   * Rotation data for signing with the key, null when the key has no lineage
+   *
+   * @throws Error if a key of the lineage cannot be loaded or certificates repeat
+   */
+  async forKeystore(keystore: KeystoreConfig): Promise<SigningRotation | null> {
+    if (!keystore.rotation) {
+      return null;
+    }
+
+    const signers = await this.loadSigners([
+      ...keystore.rotation.lineage,
+      { keyId: keystore.id, capabilities: DEFAULT_SIGNER_CAPABILITIES },
+    ]);
+
+    return {
+      original: signers[0]!.key,
+      lineage: encodeSigningLineage(signers),
+      minSdkVersion: keystore.rotation.minSdkVersion,
+    };
+  }
+
+  /**
+   * Lineage file (`apksigner --lineage` format) proving rotation from one registered key to another
+   *
+   * @param fromKeyId - Previous key
+   * @param toKeyId - New key
+   * @param capabilities - What the previous key is still trusted for
+   * @throws Error if keys are unknown, equal or cannot be loaded
+   */
+  async createLineageFile(fromKeyId: string, toKeyId: string, capabilities: SignerCapabilities): Promise<Buffer> {
+    const signers = await this.loadSigners([
+      { keyId: fromKeyId, capabilities },
+      { keyId: toKeyId, capabilities: DEFAULT_SIGNER_CAPABILITIES },
+    ]);
+
+    return encodeLineageFile(encodeSigningLineage(signers));
+  }
+
+  private async loadSigners(nodes: Array<{ keyId: string; capabilities: SignerCapabilities }>): Promise<LineageSigner[]> {
+    const signers = await Promise.all(nodes.map(async node => ({
+      key: await loadSigningKey(keystoreService.get(node.keyId)),
+      capabilities: node.capabilities,
+    })));
+
+    const fingerprints = new Set(signers.map(s => s.key.certificate.fingerprint256));
+    if (fingerprints.size !== signers.length) {
+      throw new Error('Signing lineage contains the same certificate more than once');
+    }
+
+    return signers;
+  }
+}
+
+export const lineageService = new LineageService();
@@ -0,0 +1,225 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { config } from '../config.js';
+import type { SigningEngine } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { certificateService } from './certificate.service.js';
+import { storageService } from './storage.service.js';
+
+export type MetricsOperation = 'sign' | 'download' | 'verify';
+
+export type RequestOutcome = 'success' | 'rejected' | 'denied' | 'rate_limited' | 'busy' | 'error';
+
+const PREFIX = 'apk_signer_';
+
+interface FileStats {
+  count: number;
+  size: number;
+}
+
+/**
+ * Maps validation error message to a low-cardinality reason label
+ */
+export function classifyValidationError(message: string): string {
+  if (message.includes('Zip Bomb')) return 'zip_bomb';
+  if (message.includes('not a ZIP archive')) return 'not_zip';
+  if (message.includes('malformed AndroidManifest.xml')) return 'malformed_manifest';
+  if (message.includes('missing AndroidManifest.xml') || message.includes('missing base/manifest')) return 'missing_manifest';
+  if (message.includes('missing')) return 'missing_entry';
+  if (message.includes('too large')) return 'too_large';
+  if (message.includes('empty')) return 'empty';
+  if (message.includes('Failed to parse')) return 'corrupt_zip';
+  return 'other';
+}
+
+/**
+ * Maps HTTP status of finished request to outcome label
+ */
+export function outcomeFromStatus(status: number): RequestOutcome {
+  if (status < 400) return 'success';
+  if (status === 429) return 'rate_limited';
+  if (status === 401 || status === 403) return 'denied';
+  if (status === 503) return 'busy';
+  if (status < 500) return 'rejected';
+  return 'error';
+}
+
+/**
+ * Prometheus metrics, exposed in text format by GET /metrics
+ * File gauges are computed on scrape
+ */
+export class MetricsService {
+  readonly registry = new Registry();
+  private scan: Promise<Map<string, FileStats>> | null = null;
+
+  private readonly requests = new Counter({
+    name: `${PREFIX}requests_total`,
+    help: 'Sign, download and verify requests by outcome',
+    labelNames: ['operation', 'outcome'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly validationRejections = new Counter({
+    name: `${PREFIX}validation_rejections_total`,
+    help: 'Uploads rejected by file validation, by reason',
+    labelNames: ['reason'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly rateLimitHits = new Counter({
+    name: `${PREFIX}rate_limit_hits_total`,
+    help: 'Requests refused by rate limiters',
+    labelNames: ['limiter'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly v1SigningDuration = new Histogram({
+    name: `${PREFIX}v1_signing_duration_seconds`,
+    help: 'Duration of v1 (JAR) signing by the configured engine',
+    labelNames: ['engine', 'outcome'] as const,
+    // Native engine takes well under a second for typical APKs
+    buckets: [0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120],
+    registers: [this.registry],
+  });
+
+  private readonly uploadSize = new Histogram({
+    name: `${PREFIX}upload_size_bytes`,
+    help: 'Size of uploaded files',
+    labelNames: ['operation'] as const,
+    // 1MB .. 200MB
+    buckets: [1, 5, 10, 25, 50, 100, 150, 200].map(mb => mb * 1024 * 1024),
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry, prefix: PREFIX });
+
+    const scanFiles = () => this.scanFiles();
+
+    new Gauge({
+      name: `${PREFIX}files`,
+      help: 'Files in working directories and artifact storage',
+      labelNames: ['location'] as const,
+      registers: [this.registry],
+      async collect() {
+        for (const [location, stats] of await scanFiles()) {
+          this.set({ location }, stats.count);
+        }
+      },
+    });
+
+    new Gauge({
+      name: `${PREFIX}files_bytes`,
+      help: 'Bytes occupied by files in working directories and artifact storage',
+      labelNames: ['location'] as const,
+      registers: [this.registry],
+      async collect() {
+        for (const [location, stats] of await scanFiles()) {
+          this.set({ location }, stats.size);
+        }
+      },
+    });
+
+    new Gauge({
+      name: `${PREFIX}certificate_days_remaining`,
+      help: 'Days until the first signer certificate of the key or its rotation lineage expires, as of the last hourly check',
+      labelNames: ['key_id'] as const,
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const status of certificateService.list()) {
+          if (status.daysRemaining !== null) {
+            this.set({ key_id: status.keyId }, status.daysRemaining);
+          }
+        }
+      },
+    });
+  }
+
+  recordRequest(operation: MetricsOperation, outcome: RequestOutcome): void {
+    this.requests.inc({ operation, outcome });
+  }
+
+  recordValidationRejection(message: string): void {
+    this.validationRejections.inc({ reason: classifyValidationError(message) });
+  }
+
+  recordRateLimitHit(limiter: string): void {
+    this.rateLimitHits.inc({ limiter });
+  }
+
+  observeUploadSize(operation: MetricsOperation, size: number): void {
+    this.uploadSize.observe({ operation }, size);
+  }
+
+  /**
+   * Starts v1 signing timer
+   *
+   * @returns Function to call when the engine finished
+   */
+  startV1SigningTimer(engine: SigningEngine): (outcome: 'success' | 'error') => void {
+    const end = this.v1SigningDuration.startTimer({ engine });
+    return (outcome) => end({ outcome });
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  render(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  /**
+   * Counts files once per scrape, both file gauges share the result
+   */
+  private scanFiles(): Promise<Map<string, FileStats>> {
+    this.scan ??= this.collectFileStats().finally(() => {
+      this.scan = null;
+    });
+    return this.scan;
+  }
+
+  private async collectFileStats(): Promise<Map<string, FileStats>> {
+    const result = new Map<string, FileStats>();
+
+    for (const dir of ['incoming', 'chunks']) {
+      result.set(dir, await this.scanDirectory(path.join(config.upload.dir, dir)));
+    }
+
+    try {
+      // Metadata objects of shared storage are not artifacts
+      const objects = (await storageService.list()).filter(o => !o.key.endsWith('.json'));
+      result.set('signed', {
+        count: objects.length,
+        size: objects.reduce((sum, o) => sum + o.size, 0),
+      });
+    } catch (error) {
+      logger.error('Failed to collect storage metrics', error, { storage: storageService.name });
+    }
+
+    return result;
+  }
+
+  private async scanDirectory(dir: string): Promise<FileStats> {
+    let count = 0;
+    let size = 0;
+
+    try {
+      for (const name of await fs.readdir(dir)) {
+        const stats = await fs.stat(path.join(dir, name)).catch(() => null);
+        if (stats?.isFile()) {
+          count++;
+          size += stats.size;
+        }
+      }
+    } catch {
+      // Directory is created on first upload
+    }
+
+    return { count, size };
+  }
+}
+
+export const metricsService = new MetricsService();
@@ -0,0 +1,156 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config.js';
+import type { KeystoreConfig, ReadinessCheck, ReadinessResponse } from '../types/index.js';
+import { loadSigningKey } from '../utils/keystore.js';
+import { findExecutable } from '../utils/process.utils.js';
+import { keystoreService } from './keystore.service.js';
+import { lineageService } from './lineage.service.js';
+import { storageService } from './storage.service.js';
+
+// Tools the jarsigner engine runs: zip removes old signatures, jarsigner produces v1 signatures
+const JARSIGNER_TOOLS = ['zip', 'jarsigner'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function pass(name: string, message?: string): ReadinessCheck {
+  return { name, status: 'pass', ...(message && { message }) };
+}
+
+function fail(name: string, message: string): ReadinessCheck {
+  return { name, status: 'fail', message };
+}
+
+/**
+ * Deep readiness check of everything a sign request needs
+ * Keys are cached after first successful unlock (see loadSigningKey), so repeated probes stay cheap
+ */
+export class ReadinessService {
+  async check(): Promise<ReadinessResponse> {
+    const groups = await Promise.all([
+      ...keystoreService.list().map(keystore => this.checkKeystore(keystore)),
+      Promise.all(this.requiredTools().map(tool => this.checkTool(tool))),
+      Promise.all(this.workingDirectories().map(dir => this.checkDirectory(dir))),
+      this.checkDisk().then(check => [check]),
+    ]);
+
+    const checks = groups.flat();
+
+    return {
+      status: checks.every(c => c.status === 'pass') ? 'ready' : 'not_ready',
+      checks,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Keystore file exists, alias unlocks with configured passwords and certificate is currently valid,
+   * for a rotated key also certificates of its lineage, which still sign v1/v2 and the proof-of-rotation
+   */
+  private async checkKeystore(keystore: KeystoreConfig): Promise<ReadinessCheck[]> {
+    const keystoreCheck = `keystore:${keystore.id}`;
+    const certificateCheck = `certificate:${keystore.id}`;
+
+    if (!(await fs.pathExists(keystore.path))) {
+      return [fail(keystoreCheck, 'Keystore file not found'), fail(certificateCheck, 'Keystore is not available')];
+    }
+
+    let signingKey;
+    try {
+      signingKey = await loadSigningKey(keystore);
+    } catch (error) {
+      return [fail(keystoreCheck, (error as Error).message), fail(certificateCheck, 'Keystore is not available')];
+    }
+
+    const now = Date.now();
+    const validFrom = Date.parse(signingKey.certificate.validFrom);
+    const validTo = Date.parse(signingKey.certificate.validTo);
+    const daysRemaining = Math.floor((validTo - now) / DAY_MS);
+    const lineageFailure = await this.checkLineage(keystore, now);
+
+    return [
+      pass(keystoreCheck, `Alias "${keystore.keyAlias}" unlocked`),
+      validTo <= now
+        ? fail(certificateCheck, `Certificate expired on ${new Date(validTo).toISOString()}`)
+        : validFrom > now
+          ? fail(certificateCheck, `Certificate is not valid before ${new Date(validFrom).toISOString()}`)
+          : lineageFailure
+            ? fail(certificateCheck, lineageFailure)
+            : pass(certificateCheck, `Expires in ${daysRemaining} days`),
+    ];
+  }
+
+  /**
+   * First problem with certificates of older keys of the lineage, null when all are valid
+   */
+  private async checkLineage(keystore: KeystoreConfig, now: number): Promise<string | null> {
+    for (const previous of lineageService.signingKeystores(keystore).slice(0, -1)) {
+      let validTo: number;
+      try {
+        validTo = Date.parse((await loadSigningKey(previous)).certificate.validTo);
+      } catch {
+        return `Certificate of lineage key ${previous.id} is not available`;
+      }
+
+      if (validTo <= now) {
+        return `Certificate of lineage key ${previous.id} expired on ${new Date(validTo).toISOString()}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * External tools of the configured signing engine, native engine needs none
+   */
+  private requiredTools(): string[] {
+    return config.signing.engine === 'jarsigner' ? JARSIGNER_TOOLS : [];
+  }
+
+  private async checkTool(tool: string): Promise<ReadinessCheck> {
+    const location = await findExecutable(tool);
+    return location ? pass(`tool:${tool}`) : fail(`tool:${tool}`, `${tool} not found in PATH`);
+  }
+
+  /**
+   * Local directories written during signing, artifact directory only with local storage
+   */
+  private workingDirectories(): string[] {
+    const dirs = ['incoming', 'chunks'];
+    if (storageService.name === 'local') {
+      dirs.push('signed');
+    }
+    return dirs;
+  }
+
+  private async checkDirectory(dir: string): Promise<ReadinessCheck> {
+    const name = `directory:${dir}`;
+    const probePath = path.join(config.upload.dir, dir, `.ready-${uuidv4()}`);
+
+    try {
+      await fs.ensureDir(path.dirname(probePath));
+      await fs.writeFile(probePath, '');
+      await fs.remove(probePath);
+      return pass(name);
+    } catch (error) {
+      return fail(name, `Not writable: ${(error as NodeJS.ErrnoException).code ?? (error as Error).message}`);
+    }
+  }
+
+  private async checkDisk(): Promise<ReadinessCheck> {
+    try {
+      const stats = await fs.promises.statfs(config.upload.dir);
+      const free = stats.bavail * stats.bsize;
+      const freeMb = Math.floor(free / 1024 / 1024);
+      const requiredMb = Math.floor(config.readiness.minFreeDiskBytes / 1024 / 1024);
+
+      return free >= config.readiness.minFreeDiskBytes
+        ? pass('disk', `${freeMb}MB free`)
+        : fail('disk', `${freeMb}MB free, at least ${requiredMb}MB required`);
+    } catch (error) {
+      return fail('disk', `Failed to read free space: ${(error as Error).message}`);
+    }
+  }
+}
+
+export const readinessService = new ReadinessService();
@@ -0,0 +1,121 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import AdmZip from 'adm-zip';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config.js';
+import { buildApk, createSigningKey, writeKeystore } from '../test/apk.js';
+import { verifySigningBlock, type BlockScheme } from '../utils/apkSignatureScheme.js';
+import { artifactKey } from '../utils/artifact.utils.js';
+import { validateZipAlignment } from '../utils/fileValidation.js';
+import { verifyJarSignature } from '../utils/jarSignature.js';
+import { signingService } from './signing.service.js';
+import { storageService } from './storage.service.js';
+
+/**
+ * Signing with the native v1 engine against the default keystore, no JDK needed
+ */
+
+const key = createSigningKey('Signing Service Test');
+const incomingDir = path.join(config.upload.dir, 'incoming');
+
+beforeAll(async () => {
+  await writeKeystore(process.env.KEYSTORE_PATH!, key, process.env.KEY_ALIAS!, process.env.KEYSTORE_PASSWORD!);
+  await fs.ensureDir(incomingDir);
+});
+
+async function writeInput(data: Buffer): Promise<string> {
+  const inputPath = path.join(incomingDir, uuidv4());
+  await fs.writeFile(inputPath, data);
+  return inputPath;
+}
+
+/**
+ * Checks v1 signature, signing block and alignment of one APK
+ */
+async function expectSigned(apk: Buffer, blockSchemes: BlockScheme[]): Promise<void> {
+  const jar = verifyJarSignature(new AdmZip(apk));
+  expect(jar?.errors).toEqual([]);
+  expect(jar?.verified).toBe(true);
+  expect(jar?.signers[0]?.fingerprint256).toBe(key.certificate.fingerprint256);
+
+  const blocks = verifySigningBlock(apk);
+  expect(blocks.map(b => [b.scheme, b.verified])).toEqual(blockSchemes.map(scheme => [scheme, true]));
+  for (const block of blocks) {
+    expect(block.signers[0]?.fingerprint256).toBe(key.certificate.fingerprint256);
+  }
+
+  const apkPath = path.join(incomingDir, `${uuidv4()}.apk`);
+  await fs.writeFile(apkPath, apk);
+  try {
+    expect((await validateZipAlignment(apkPath)).aligned).toBe(true);
+  } finally {
+    await fs.remove(apkPath);
+  }
+}
+
+describe('signingService.signApk', () => {
+  test('APK is signed with v1, v2 and v3 and aligned', async () => {
+    const inputPath = await writeInput(buildApk());
+    const result = await signingService.signApk(inputPath, 'app.apk', { schemes: ['v1', 'v2', 'v3'] });
+
+    expect(result.filename).toBe('app-signed.apk');
+    expect(result.alignment).toEqual({ aligned: true, checkedEntries: 3, misaligned: [] });
+    expect(result.splits).toBeNull();
+    expect(await fs.pathExists(inputPath)).toBe(false);
+
+    const signed = (await storageService.getObject(artifactKey(result.fileId, 'apk')))!;
+    expect(signed.length).toBe(result.size);
+    expect(crypto.createHash('sha256').update(signed).digest('hex')).toBe(result.sha256);
+    await expectSigned(signed, ['v2', 'v3']);
+  });
+
+  test('already signed APK is re-signed', async () => {
+    const first = await signingService.signApk(await writeInput(buildApk()), 'app.apk', { schemes: ['v1', 'v2'] });
+    const signed = (await storageService.getObject(artifactKey(first.fileId, 'apk')))!;
+
+    const second = await signingService.signApk(await writeInput(signed), 'app.apk', { schemes: ['v1', 'v3'] });
+    await expectSigned((await storageService.getObject(artifactKey(second.fileId, 'apk')))!, ['v3']);
+  });
+
+  test('every APK of split set is signed, other entries are kept', async () => {
+    const container = new AdmZip();
+    container.addFile('toc.pb', Buffer.from('table of contents'));
+    container.addFile('splits/base-master.apk', buildApk());
+    container.addFile('splits/base-arm64_v8a.apk', buildApk('split.AndroidManifest.xml'));
+    container.addZipComment('container comment');
+    const input = container.toBuffer();
+
+    const inputPath = await writeInput(input);
+    const result = await signingService.signApk(inputPath, 'app.apks', { schemes: ['v1', 'v2', 'v3'], type: 'apks' });
+
+    expect(result.alignment).toBeNull();
+    expect(result.splits?.map(s => [s.name, s.split]).sort()).toEqual([
+      ['splits/base-arm64_v8a.apk', 'config.arm64_v8a'],
+      ['splits/base-master.apk', null],
+    ]);
+
+    const signed = new AdmZip((await storageService.getObject(artifactKey(result.fileId, 'apks')))!);
+    expect(signed.readAsText('toc.pb')).toBe('table of contents');
+    expect(signed.getEntries().map(e => e.entryName)).toEqual(new AdmZip(input).getEntries().map(e => e.entryName));
+    expect(signed.getZipComment()).toBe('container comment');
+
+    for (const split of result.splits!) {
+      const entry = signed.getEntry(split.name)!;
+      expect(entry.header.method).toBe(0);
+
+      const apk = entry.getData();
+      expect(apk.length).toBe(split.size);
+      expect(crypto.createHash('sha256').update(apk).digest('hex')).toBe(split.sha256);
+      expect(split.alignment.aligned).toBe(true);
+      await expectSigned(apk, ['v2', 'v3']);
+    }
+  });
+
+  test('app bundles accept only v1', async () => {
+    const inputPath = await writeInput(buildApk());
+    await expect(signingService.signApk(inputPath, 'app.aab', { schemes: ['v1', 'v2'], type: 'aab' }))
+      .rejects.toThrow('App bundles support only v1 (JAR) signing');
+  });
+});
@@ -1,74 +1,339 @@
+import crypto from 'crypto';
 import fs from 'fs-extra';
 import path from 'path';
+import { pipeline } from 'stream/promises';
 import { v4 as uuidv4 } from 'uuid';
 import { config } from '../config.js';
-import { safeRemove } from '../utils/file.utils.js';
+import type {
+  ApkManifestInfo,
+  ArtifactType,
+  KeystoreConfig,
+  SignatureScheme,
+  SplitApkInfo,
+  ZipAlignmentReport,
+} from '../types/index.js';
+import { applySigningBlock, type BlockScheme } from '../utils/apkSignatureScheme.js';
+import { ARTIFACT_FORMATS, artifactKey, isSplitApkSet } from '../utils/artifact.utils.js';
+import { safeRemove, sha256File } from '../utils/file.utils.js';
+import { decodeApkManifest } from '../utils/axml.js';
+import { holdFiles } from '../utils/fileLimit.js';
+import { isSplitApkEntry, validateZipAlignment } from '../utils/fileValidation.js';
+import { signJar } from '../utils/jarSignature.js';
+import { loadSigningKey } from '../utils/keystore.js';
 import { logger } from '../utils/logger.js';
 import { execCommand } from '../utils/process.utils.js';
+import { keystoreService } from './keystore.service.js';
+import { lineageService } from './lineage.service.js';
+import { metricsService } from './metrics.service.js';
+import { storageService } from './storage.service.js';
 import { sanitizeFilename } from '../utils/validation.js';
+import { alignApkFile } from '../utils/zipAlign.js';
+import {
+  buildArchiveEnd,
+  buildStoredEntryHeaders,
+  centralDirectoryRecord,
+  copyFileRange,
+  crc32,
+  FILE_CHUNK_SIZE,
+  localRecords,
+  openZipFile,
+  readEntry,
+  readEntryData,
+  replaceFile,
+  rewriteZip,
+  withLocalHeaderOffset,
+  type CentralDirectoryEntry,
+} from '../utils/zip.utils.js';
+
+export interface SignOptions {
+  schemes: SignatureScheme[];
+  /** Artifact kind, App Bundles support only v1 (JAR) signing */
+  type?: ArtifactType;
+  /** Keystore registry ID, default keystore when omitted */
+  keyId?: string;
+}
+
+export interface SignResult {
+  fileId: string;
+  filename: string;
+  type: ArtifactType;
+  schemes: SignatureScheme[];
+  keyId: string;
+  /** Signed file size in bytes */
+  size: number;
+  /** Signed file SHA-256 (hex) */
+  sha256: string;
+  /** Alignment check of the signed APK, null for app bundles and split APK sets */
+  alignment: ZipAlignmentReport | null;
+  /** Signed APKs of split APK set, null for other types */
+  splits: SplitApkInfo[] | null;
+}
 
 export class SigningService {
-  private readonly signedDir: string;
+  // Signing happens on local copy which is moved to artifact storage afterwards
+  private readonly workDir: string;
 
   constructor() {
-    this.signedDir = path.join(config.upload.dir, 'signed');
+    this.workDir = path.join(config.upload.dir, 'incoming');
   }
 
   private async removeOldSignature(apkPath: string): Promise<void> {
     try {
-      // APK is a ZIP file, remove META-INF directory to delete old signature
-      // Code 0 = success, Code 12 = nothing to do (no META-INF), both are OK
-      await execCommand('zip', ['-d', apkPath, 'META-INF/*'], [0, 12]);
+      // APK and AAB are ZIP files, remove META-INF directory to delete old signature
+      if (config.signing.engine === 'native') {
+        await rewriteZip(apkPath, [], entry => !entry.name.startsWith('META-INF/'));
+      } else {
+        // Code 0 = success, Code 12 = nothing to do (no META-INF), both are OK
+        await execCommand('zip', ['-d', apkPath, 'META-INF/*'], [0, 12]);
+      }
       logger.info('Old signature removed or not present', { apkPath });
     } catch (error) {
       throw new Error(`Failed to remove old signature: ${(error as Error).message}`);
     }
   }
 
-  async signApk(inputPath: string, originalName: string): Promise<{ fileId: string; filename: string }> {
-    const fileId = uuidv4();
-    const safeName = sanitizeFilename(originalName);
-    const outputFilename = `${path.parse(safeName).name}-signed.apk`;
-    const outputPath = path.join(this.signedDir, `${fileId}.apk`);
-
-    if (!(await fs.pathExists(config.keystore.path))) {
-      throw new Error('Keystore not found');
+  private async signV1(apkPath: string, keystore: KeystoreConfig, blockSchemes: BlockScheme[]): Promise<void> {
+    const stopTimer = metricsService.startV1SigningTimer(config.signing.engine);
+    try {
+      if (config.signing.engine === 'native') {
+        const signingKey = await loadSigningKey(keystore);
+        await signJar(apkPath, signingKey, {
+          signerName: keystore.keyAlias,
+          apkSignatureSchemes: blockSchemes.map(s => Number(s.slice(1))),
+        });
+      } else {
+        await this.runJarsigner(apkPath, keystore);
+      }
+      stopTimer('success');
+    } catch (error) {
+      stopTimer('error');
+      throw error;
     }
+  }
 
-    await fs.copy(inputPath, outputPath);
+  private async runJarsigner(apkPath: string, keystore: KeystoreConfig): Promise<void> {
+    const jarSignerArgs = [
+      '-verbose',
+      '-sigalg', 'SHA256withRSA',
+      '-digestalg', 'SHA-256',
+      '-keystore', keystore.path,
+      '-storepass', keystore.password,
+      '-keypass', keystore.keyPassword,
+      apkPath,
+      keystore.keyAlias,
+    ];
+
+    await execCommand('jarsigner', jarSignerArgs);
+  }
+
+  /**
+   * Signs single APK or AAB in place
+   * v1 (JAR signing) runs first, then APK is aligned, v2/v3 protect the final ZIP contents
+   * Rotated keys sign v1/v2 with the original key of their lineage and v3 with proof-of-rotation
+   * 
+   * @returns Alignment check of the signed APK, null for app bundles
+   */
+  private async signPackage(
+    filePath: string,
+    keystore: KeystoreConfig,
+    schemes: SignatureScheme[],
+    type: 'apk' | 'aab'
+  ): Promise<ZipAlignmentReport | null> {
+    const blockSchemes = schemes.filter((s): s is BlockScheme => s !== 'v1');
 
     try {
-      await this.removeOldSignature(outputPath);
+      await this.removeOldSignature(filePath);
     } catch (error) {
       logger.warn('Failed to remove old signature, continuing anyway', { 
         error: (error as Error).message 
       });
     }
 
-    const jarSignerArgs = [
-      '-verbose',
-      '-sigalg', 'SHA256withRSA',
-      '-digestalg', 'SHA-256',
-      '-keystore', config.keystore.path,
-      '-storepass', config.keystore.password,
-      '-keypass', config.keystore.keyPassword,
-      outputPath,
-      config.keystore.keyAlias,
-    ];
+    if (schemes.includes('v1')) {
+      await this.signV1(filePath, lineageService.originalKeystore(keystore), blockSchemes);
+    }
+
+    // App bundles are not installed directly, bundletool aligns the APKs it generates
+    if (type === 'apk') {
+      await alignApkFile(filePath);
+    }
+
+    if (blockSchemes.length > 0) {
+      const signingKey = await loadSigningKey(keystore);
+      const rotation = await lineageService.forKeystore(keystore);
+      await applySigningBlock(filePath, signingKey, blockSchemes, rotation);
+    }
+
+    const alignment = type === 'apk' ? await validateZipAlignment(filePath) : null;
+    if (alignment && !alignment.aligned) {
+      throw new Error(`Signed APK is not aligned: ${alignment.misaligned.map(e => e.name).join(', ')}`);
+    }
+
+    return alignment;
+  }
+
+  /**
+   * Signs every APK of split APK set with the same key and schemes, replacing them in the container
+   * Container is rewritten one entry at a time: each APK is extracted, signed and appended to the new container,
+   * other entries (toc.pb, manifest.json, icons, OBB files) are copied as is
+   * 
+   * @returns Table of contents of signed APKs
+   */
+  private async signSplitApkSet(
+    containerPath: string,
+    keystore: KeystoreConfig,
+    schemes: SignatureScheme[]
+  ): Promise<SplitApkInfo[]> {
+    const container = await openZipFile(containerPath);
+    const splits: SplitApkInfo[] = [];
+
+    try {
+      await replaceFile(containerPath, async output => {
+        const chunk = Buffer.alloc(FILE_CHUNK_SIZE);
+        const records = new Map<CentralDirectoryEntry, Buffer>();
+        let position = 0;
+
+        for (const { entry, end } of localRecords(container)) {
+          if (!isSplitApkEntry(entry.name)) {
+            await copyFileRange(container.handle, output, entry.localHeaderOffset, end, chunk);
+            records.set(entry, withLocalHeaderOffset(centralDirectoryRecord(container, entry), position));
+            position += end - entry.localHeaderOffset;
+            continue;
+          }
+
+          const apkPath = path.join(this.workDir, `${uuidv4()}.apk`);
+          const releaseApk = holdFiles(apkPath);
+          try {
+            await readEntryData(container, entry, chunks => pipeline(chunks, fs.createWriteStream(apkPath)));
+            const alignment = (await this.signPackage(apkPath, keystore, schemes, 'apk'))!;
+            const { crc, sha256, size } = await this.checksums(apkPath);
+
+            // Stored, so installers can read split APKs without inflating them
+            const { header, record } = buildStoredEntryHeaders(entry.name, crc, size, position);
+            await output.write(header);
+            const apk = await fs.promises.open(apkPath, 'r');
+            try {
+              await copyFileRange(apk, output, 0, size, chunk);
+            } finally {
+              await apk.close();
+            }
+            records.set(entry, record);
+            position += header.length + size;
+
+            splits.push({
+              name: entry.name,
+              split: (await this.readManifest(apkPath)).split,
+              size,
+              sha256,
+              alignment,
+            });
+          } catch (error) {
+            throw new Error(`${entry.name}: ${(error as Error).message}`);
+          } finally {
+            await safeRemove(apkPath);
+            releaseApk();
+          }
+        }
+
+        await output.write(buildArchiveEnd(container.entries.map(e => records.get(e)!), container.eocd, position));
+      });
+    } finally {
+      await container.handle.close();
+    }
+
+    return splits;
+  }
+
+  /**
+   * CRC-32 (for the container entry) and SHA-256 of signed APK
+   */
+  private async checksums(filePath: string): Promise<{ crc: number; sha256: string; size: number }> {
+    const hash = crypto.createHash('sha256');
+    let crc = 0;
+    let size = 0;
 
-    logger.info('Starting APK signing', { fileId, originalName: safeName });
+    for await (const chunk of fs.createReadStream(filePath)) {
+      hash.update(chunk as Buffer);
+      crc = crc32(chunk as Buffer, crc);
+      size += (chunk as Buffer).length;
+    }
+
+    return { crc, sha256: hash.digest('hex'), size };
+  }
 
+  private async readManifest(apkPath: string): Promise<ApkManifestInfo> {
+    const apk = await openZipFile(apkPath);
     try {
-      await execCommand('jarsigner', jarSignerArgs);
-      logger.info('APK signing completed', { fileId, outputFilename });
+      return decodeApkManifest((await readEntry(apk, 'AndroidManifest.xml')) ?? Buffer.alloc(0));
+    } finally {
+      await apk.handle.close();
+    }
+  }
+
+  /**
+   * Signs APK, AAB or split APK set with requested schemes and moves the result to artifact storage
+   */
+  async signApk(
+    inputPath: string,
+    originalName: string,
+    options: SignOptions = { schemes: config.signing.defaultSchemes }
+  ): Promise<SignResult> {
+    const { schemes, type = 'apk' } = options;
+    const keystore = keystoreService.get(options.keyId);
+
+    if (type === 'zip') {
+      throw new Error('ZIP archives are not signed');
+    }
+
+    if (type === 'aab' && schemes.some(s => s !== 'v1')) {
+      throw new Error('App bundles support only v1 (JAR) signing');
+    }
+
+    const { extension } = ARTIFACT_FORMATS[type];
+    const fileId = uuidv4();
+    const safeName = sanitizeFilename(originalName);
+    const outputFilename = `${path.parse(safeName).name}-signed.${extension}`;
+    const outputPath = path.join(this.workDir, `${fileId}-signed.${extension}`);
+
+    if (!(await fs.pathExists(keystore.path))) {
+      throw new Error('Keystore not found');
+    }
+
+    // Working copy is not pruned by the incoming file limit until it is moved to storage
+    const releaseOutput = holdFiles(outputPath);
+
+    logger.info('Starting APK signing', {
+      fileId,
+      originalName: safeName,
+      type,
+      schemes,
+      keyId: keystore.id,
+      engine: config.signing.engine,
+      lineage: keystore.rotation?.lineage.map(node => node.keyId),
+    });
+
+    try {
+      await fs.copy(inputPath, outputPath);
+
+      const splits = isSplitApkSet(type) ? await this.signSplitApkSet(outputPath, keystore, schemes) : null;
+      const alignment = isSplitApkSet(type) ? null : await this.signPackage(outputPath, keystore, schemes, type);
+
+      const { size } = await fs.stat(outputPath);
+      const sha256 = await sha256File(outputPath);
+
+      await storageService.putFile(artifactKey(fileId, type), outputPath, ARTIFACT_FORMATS[type].contentType);
+
+      logger.info('APK signing completed', { fileId, outputFilename, schemes, size, sha256, storage: storageService.name });
       
       await safeRemove(inputPath);
       
-      return { fileId, filename: outputFilename };
+      return { fileId, filename: outputFilename, type, schemes, keyId: keystore.id, size, sha256, alignment, splits };
     } catch (error) {
       logger.error('APK signing failed', error as Error, { fileId });
       await safeRemove(outputPath);
       throw new Error(`Signing failed: ${(error as Error).message}`);
+    } finally {
+      releaseOutput();
     }
   }
 }
@@ -0,0 +1,118 @@
+import { config } from '../config.js';
+import type { SigningQueueStats } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Raised when pool queue is at capacity
+ * Routes translate it into 503 with Retry-After
+ */
+export class QueueFullError extends Error {
+  constructor(readonly retryAfterSeconds: number) {
+    super('Signing queue is full, please retry later');
+    this.name = 'QueueFullError';
+  }
+}
+
+interface PendingTask {
+  start: () => void;
+  enqueuedAt: number;
+}
+
+// Number of recent tasks used for wait/duration averages
+const STATS_WINDOW = 50;
+
+/**
+ * Bounded pool limiting how many signing pipelines (and jarsigner JVMs) run at once
+ * Tasks beyond maxConcurrency wait in FIFO queue of at most maxQueue entries
+ */
+export class WorkerPool {
+  private readonly pending: PendingTask[] = [];
+  private running = 0;
+  private readonly waitTimes: number[] = [];
+  private readonly durations: number[] = [];
+
+  constructor(
+    private readonly maxConcurrency: number,
+    private readonly maxQueue: number
+  ) {}
+
+  /**
+   * Whether a new task would be accepted right now
+   */
+  hasCapacity(): boolean {
+    return this.running < this.maxConcurrency || this.pending.length < this.maxQueue;
+  }
+
+  /**
+   * Runs task when a slot is free
+   *
+   * @throws QueueFullError if all slots are busy and queue is full
+   */
+  run<T>(task: () => Promise<T>): Promise<T> {
+    if (!this.hasCapacity()) {
+      logger.warn('Signing queue is full', { running: this.running, queued: this.pending.length });
+      throw new QueueFullError(this.estimateRetryAfter());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const enqueuedAt = Date.now();
+
+      const start = () => {
+        this.running++;
+        const startedAt = Date.now();
+        this.record(this.waitTimes, startedAt - enqueuedAt);
+
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            this.record(this.durations, Date.now() - startedAt);
+            this.running--;
+            this.pending.shift()?.start();
+          });
+      };
+
+      if (this.running < this.maxConcurrency) {
+        start();
+      } else {
+        this.pending.push({ start, enqueuedAt });
+      }
+    });
+  }
+
+  stats(): SigningQueueStats {
+    const now = Date.now();
+    return {
+      running: this.running,
+      queued: this.pending.length,
+      maxConcurrency: this.maxConcurrency,
+      maxQueue: this.maxQueue,
+      averageWaitMs: Math.round(average(this.waitTimes)),
+      oldestWaitMs: this.pending[0] ? now - this.pending[0].enqueuedAt : 0,
+    };
+  }
+
+  /**
+   * Rough time until a slot frees up, based on recent task durations
+   */
+  private estimateRetryAfter(): number {
+    const averageDuration = average(this.durations) || 5000;
+    const ahead = this.pending.length + 1;
+    return Math.max(1, Math.ceil((averageDuration * ahead) / this.maxConcurrency / 1000));
+  }
+
+  private record(samples: number[], value: number) {
+    samples.push(value);
+    if (samples.length > STATS_WINDOW) {
+      samples.shift();
+    }
+  }
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+export const signingPool = new WorkerPool(
+  config.signing.maxConcurrency,
+  config.signing.maxQueue
+);
@@ -0,0 +1,12 @@
+import path from 'path';
+import { config } from '../config.js';
+import { createStorageDriver } from '../factories/storage.factory.js';
+import type { StorageDriver } from '../types/index.js';
+
+/**
+ * Storage of signed artifacts, selected by STORAGE_DRIVER
+ */
+export const storageService: StorageDriver = createStorageDriver(
+  config.storage,
+  path.join(config.upload.dir, 'signed')
+);
@@ -2,12 +2,15 @@ import multer from 'multer';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { config } from '../config.js';
+import { ARTIFACT_FORMATS, detectArtifactType, isSignableFilename } from '../utils/artifact.utils.js';
 import { ensureDirectories } from '../utils/file.utils.js';
+import { holdFiles } from '../utils/fileLimit.js';
 
 const incomingDir = path.join(config.upload.dir, 'incoming');
 const signedDir = path.join(config.upload.dir, 'signed');
+const chunksDir = path.join(config.upload.dir, 'chunks');
 
-await ensureDirectories(incomingDir, signedDir);
+await ensureDirectories(incomingDir, signedDir, chunksDir);
 
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
@@ -15,18 +18,37 @@ const storage = multer.diskStorage({
   },
   filename: (req, file, cb) => {
     const fileId = uuidv4();
-    cb(null, `${fileId}.apk`);
+    const { extension } = isZipUpload(file)
+      ? ARTIFACT_FORMATS.zip
+      : ARTIFACT_FORMATS[detectArtifactType(file.originalname)];
+    const filename = `${fileId}.${extension}`;
+    // File being received is not pruned by the incoming file limit, handlers hold it further when needed
+    req.res?.once('close', holdFiles(path.join(incomingDir, filename)));
+    cb(null, filename);
   },
 });
 
+/**
+ * ZIP of APKs sent to the batch endpoint
+ */
+export function isZipUpload(file: Pick<Express.Multer.File, 'originalname'>): boolean {
+  return file.originalname.toLowerCase().endsWith('.zip');
+}
+
 const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  if (file.mimetype !== 'application/vnd.android.package-archive' && 
-      !file.originalname.endsWith('.apk')) {
-    return cb(new Error('Only APK files are allowed'));
+  if (file.mimetype !== 'application/vnd.android.package-archive' && !isSignableFilename(file.originalname)) {
+    return cb(new Error('Only APK, AAB, APKS and XAPK files are allowed'));
   }
   cb(null, true);
 };
 
+const batchFileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (isZipUpload(file)) {
+    return cb(null, true);
+  }
+  fileFilter(req, file, cb);
+};
+
 export const upload = multer({
   storage,
   fileFilter,
@@ -34,3 +56,14 @@ export const upload = multer({
     fileSize: config.upload.maxFileSize,
   },
 });
+
+/**
+ * Upload of POST /api/sign/batch: several APK/AAB files or a single ZIP of them
+ */
+export const batchUpload = multer({
+  storage,
+  fileFilter: batchFileFilter,
+  limits: {
+    fileSize: config.upload.maxFileSize,
+  },
+});
@@ -0,0 +1,70 @@
+import AdmZip from 'adm-zip';
+import fs from 'fs-extra';
+import type { SchemeVerificationResult, VerifyResponse } from '../types/index.js';
+import { verifySigningBlock } from '../utils/apkSignatureScheme.js';
+import { verifyJarSignature } from '../utils/jarSignature.js';
+import { validateZipAlignment } from '../utils/fileValidation.js';
+import { describeCertificate } from '../utils/keystore.js';
+import { logger } from '../utils/logger.js';
+
+export class VerificationService {
+  /**
+   * Verifies all signature schemes present in APK
+   * 
+   * @param filePath - Path to APK (must already pass validateApkFile)
+   * @returns Structured report; APK is considered verified when
+   *          at least one scheme is present and every present scheme verifies
+   */
+  async verifyApk(filePath: string): Promise<VerifyResponse> {
+    const apk = await fs.readFile(filePath);
+    const zip = new AdmZip(apk);
+
+    const v1 = verifyJarSignature(zip);
+    const blocks = verifySigningBlock(apk);
+
+    const results: SchemeVerificationResult[] = [];
+
+    if (v1) {
+      results.push({
+        scheme: 'v1',
+        verified: v1.verified,
+        signers: v1.signers.map(describeCertificate),
+        errors: v1.errors,
+      });
+    }
+
+    for (const block of blocks) {
+      results.push({
+        scheme: block.scheme,
+        verified: block.verified,
+        signers: block.signers.map(describeCertificate),
+        errors: block.errors,
+      });
+    }
+
+    const entryDigestsMatch =
+      (!v1 || (v1.entries.mismatched.length === 0 && v1.entries.unsigned.length === 0)) &&
+      blocks.every(b => b.contentDigestMatches);
+
+    const verified = results.length > 0 && results.every(r => r.verified);
+    const alignment = await validateZipAlignment(filePath);
+
+    logger.info('APK verification completed', {
+      verified,
+      schemes: results.map(r => r.scheme),
+      aligned: alignment.aligned,
+    });
+
+    return {
+      success: true,
+      verified,
+      schemes: results.map(r => r.scheme),
+      entryDigestsMatch,
+      results,
+      entries: v1?.entries ?? null,
+      alignment,
+    };
+  }
+}
+
+export const verificationService = new VerificationService();
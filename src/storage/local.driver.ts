@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import type { ByteRange, StorageDriver, StoredObjectInfo, VersionedObject } from '../types/index.js';
+
+/**
+ * Keeps artifacts in local directory (single replica deployments)
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+  readonly shared = false;
+
+  constructor(private readonly rootDir: string) {}
+
+  async putFile(key: string, filePath: string): Promise<void> {
+    const target = this.resolve(key);
+    if (path.resolve(filePath) === target) {
+      return;
+    }
+
+    await fs.ensureDir(this.rootDir);
+    await fs.move(filePath, target, { overwrite: true });
+  }
+
+  async putObject(key: string, data: Buffer): Promise<void> {
+    await fs.ensureDir(this.rootDir);
+    await fs.writeFile(this.resolve(key), data);
+  }
+
+  async getObject(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async getVersionedObject(key: string): Promise<VersionedObject | null> {
+    const data = await this.getObject(key);
+    return data && { data, version: contentVersion(data) };
+  }
+
+  /**
+   * Local storage is used by a single replica, check and write are not atomic across processes
+   */
+  async putObjectIfVersion(key: string, data: Buffer, contentType: string, version: string): Promise<boolean> {
+    const current = await this.getObject(key);
+    if (!current || contentVersion(current) !== version) {
+      return false;
+    }
+    await this.putObject(key, data);
+    return true;
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<NodeJS.ReadableStream> {
+    return fs.createReadStream(this.resolve(key), range);
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const stats = await fs.stat(this.resolve(key));
+      return { key, size: stats.size, lastModified: stats.mtime };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.remove(this.resolve(key));
+  }
+
+  async list(): Promise<StoredObjectInfo[]> {
+    if (!(await fs.pathExists(this.rootDir))) {
+      return [];
+    }
+
+    const names = await fs.readdir(this.rootDir);
+    const objects = await Promise.all(names.map(name => this.stat(name)));
+    return objects.filter((o): o is StoredObjectInfo => o !== null);
+  }
+
+  /**
+   * Resolves key inside root directory
+   *
+   * @throws Error if key escapes root directory
+   */
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.rootDir, key);
+    if (path.dirname(resolved) !== path.resolve(this.rootDir)) {
+      throw new Error('Path traversal attempt detected');
+    }
+    return resolved;
+  }
+}
+
+function contentVersion(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
@@ -0,0 +1,194 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client
+} from '@aws-sdk/client-s3';
+import fs from 'fs-extra';
+import type { Readable } from 'stream';
+import type { ByteRange, S3StorageConfig, StorageDriver, StoredObjectInfo, VersionedObject } from '../types/index.js';
+import { safeRemove } from '../utils/file.utils.js';
+
+/**
+ * Keeps artifacts in S3-compatible bucket (AWS S3, MinIO, ...)
+ * Objects are shared by every replica pointing to the same bucket
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const;
+  readonly shared = true;
+  private readonly client: S3Client;
+
+  constructor(private readonly options: S3StorageConfig) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      ...(options.accessKeyId && options.secretAccessKey && {
+        credentials: {
+          accessKeyId: options.accessKeyId,
+          secretAccessKey: options.secretAccessKey,
+        },
+      }),
+    });
+  }
+
+  async putFile(key: string, filePath: string, contentType: string): Promise<void> {
+    const { size } = await fs.stat(filePath);
+
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.objectKey(key),
+      Body: fs.createReadStream(filePath),
+      ContentLength: size,
+      ContentType: contentType,
+    }));
+
+    await safeRemove(filePath);
+  }
+
+  async putObject(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.objectKey(key),
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async getObject(key: string): Promise<Buffer | null> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({
+        Bucket: this.options.bucket,
+        Key: this.objectKey(key),
+      }));
+      return result.Body ? Buffer.from(await result.Body.transformToByteArray()) : null;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async getVersionedObject(key: string): Promise<VersionedObject | null> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({
+        Bucket: this.options.bucket,
+        Key: this.objectKey(key),
+      }));
+      if (!result.Body || !result.ETag) {
+        return null;
+      }
+      return { data: Buffer.from(await result.Body.transformToByteArray()), version: result.ETag };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Conditional PUT (If-Match), needs S3 conditional writes support (AWS S3, recent MinIO)
+   */
+  async putObjectIfVersion(key: string, data: Buffer, contentType: string, version: string): Promise<boolean> {
+    try {
+      await this.client.send(new PutObjectCommand({
+        Bucket: this.options.bucket,
+        Key: this.objectKey(key),
+        Body: data,
+        ContentType: contentType,
+        IfMatch: version,
+      }));
+      return true;
+    } catch (error) {
+      if (isConditionFailed(error) || isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<NodeJS.ReadableStream> {
+    const result = await this.client.send(new GetObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.objectKey(key),
+      Range: range && `bytes=${range.start}-${range.end}`,
+    }));
+
+    if (!result.Body) {
+      throw new Error(`Object ${key} has no body`);
+    }
+
+    return result.Body as Readable;
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const result = await this.client.send(new HeadObjectCommand({
+        Bucket: this.options.bucket,
+        Key: this.objectKey(key),
+      }));
+      return {
+        key,
+        size: result.ContentLength ?? 0,
+        lastModified: result.LastModified ?? new Date(0),
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.objectKey(key),
+    }));
+  }
+
+  async list(): Promise<StoredObjectInfo[]> {
+    const objects: StoredObjectInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.options.bucket,
+        Prefix: this.options.prefix || undefined,
+        ContinuationToken: continuationToken,
+      }));
+
+      for (const object of page.Contents ?? []) {
+        const key = object.Key?.slice(this.options.prefix.length);
+        // Skip "directories" below prefix, keys are flat
+        if (!key || key.includes('/')) continue;
+
+        objects.push({
+          key,
+          size: object.Size ?? 0,
+          lastModified: object.LastModified ?? new Date(0),
+        });
+      }
+
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  private objectKey(key: string): string {
+    if (key.includes('/')) {
+      throw new Error('Path traversal attempt detected');
+    }
+    return `${this.options.prefix}${key}`;
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  const err = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return err.name === 'NoSuchKey' || err.name === 'NotFound' || err.$metadata?.httpStatusCode === 404;
+}
+
+/**
+ * 412 when If-Match does not match, 409 when another conditional write of the object is in progress
+ */
+function isConditionFailed(error: unknown): boolean {
+  const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+  return status === 412 || status === 409;
+}
@@ -0,0 +1,80 @@
+import AdmZip from 'adm-zip';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import forge from 'node-forge';
+import path from 'path';
+import type { SigningKey } from '../utils/keystore.js';
+
+/**
+ * Keys, keystores and APKs generated for tests, no JDK or Android SDK needed
+ */
+
+export const FIXTURES_DIR = path.join(import.meta.dirname, 'fixtures');
+
+export interface GeneratedKey extends SigningKey {
+  forgeKey: forge.pki.rsa.PrivateKey;
+  forgeCertificate: forge.pki.Certificate;
+}
+
+/**
+ * RSA key with self-signed certificate
+ *
+ * @param validDays - Certificate validity from now, negative for an expired certificate
+ */
+export function createSigningKey(commonName: string, validDays = 365): GeneratedKey {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const forgeKey = forge.pki.privateKeyFromPem(privateKey.export({ type: 'pkcs8', format: 'pem' }).toString());
+
+  const cert = forge.pki.createCertificate();
+  cert.publicKey = forge.pki.publicKeyFromPem(publicKey.export({ type: 'spki', format: 'pem' }).toString());
+  cert.serialNumber = `01${crypto.randomBytes(8).toString('hex')}`;
+  const now = Date.now();
+  cert.validity.notBefore = new Date(Math.min(now, now + validDays * 86400000) - 86400000);
+  cert.validity.notAfter = new Date(now + validDays * 86400000);
+  const subject = [{ name: 'commonName', value: commonName }];
+  cert.setSubject(subject);
+  cert.setIssuer(subject);
+  cert.sign(forgeKey, forge.md.sha256.create());
+
+  const der = Buffer.from(forge.asn1.toDer(forge.pki.certificateToAsn1(cert)).getBytes(), 'binary');
+  return { privateKey, certificate: new crypto.X509Certificate(der), forgeKey, forgeCertificate: cert };
+}
+
+/**
+ * Writes key as PKCS#12 keystore with single alias
+ */
+export async function writeKeystore(filePath: string, key: GeneratedKey, alias: string, password: string): Promise<void> {
+  const p12 = forge.pkcs12.toPkcs12Asn1(key.forgeKey, [key.forgeCertificate], password, {
+    algorithm: '3des',
+    friendlyName: alias,
+    generateLocalKeyId: true,
+  });
+  await fs.outputFile(filePath, Buffer.from(forge.asn1.toDer(p12).getBytes(), 'binary'));
+}
+
+export function readFixture(name: string): Buffer {
+  return fs.readFileSync(path.join(FIXTURES_DIR, name));
+}
+
+/**
+ * Unsigned, unaligned APK: manifest from fixture, compressed dex, stored resources and native library
+ *
+ * @param manifest - Fixture file name of binary AndroidManifest.xml
+ */
+export function buildApk(manifest = 'release.AndroidManifest.xml'): Buffer {
+  const zip = new AdmZip();
+  const add = (name: string, data: Buffer, stored: boolean) => {
+    zip.addFile(name, data);
+    zip.getEntry(name)!.header.method = stored ? 0 : 8;
+  };
+
+  add('AndroidManifest.xml', readFixture(manifest), false);
+  add('classes.dex', crypto.randomBytes(32 * 1024), false);
+  // Odd sizes before stored entries make their data start misaligned
+  add('res/raw/a.bin', crypto.randomBytes(1001), true);
+  add('resources.arsc', crypto.randomBytes(777), true);
+  add('lib/arm64-v8a/libnative.so', crypto.randomBytes(5000), true);
+  add('assets/readme.txt', Buffer.from('hello '.repeat(100)), false);
+
+  return zip.toBuffer();
+}
@@ -0,0 +1,23 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Environment for tests, loaded before any test file so config.ts validates successfully
+ * Uploads and artifact metadata go to a temporary directory removed when tests end
+ */
+
+const uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), 'apk-signer-test-'));
+
+process.env.NODE_ENV = 'test';
+process.env.UPLOAD_DIR = uploadDir;
+process.env.STATIC_AUTH_TOKEN ??= 'Test_token_0123456789_abcdefghijklmnopqrstuvwxyz';
+process.env.DOWNLOAD_URL_SECRET ??= 'Test_secret_0123456789_abcdefghijklmnopqrstuvwxyz';
+process.env.KEYSTORE_PATH ??= path.join(uploadDir, 'release.p12');
+process.env.KEYSTORE_PASSWORD ??= 'secret123';
+process.env.KEY_ALIAS ??= 'release';
+process.env.KEY_PASSWORD ??= 'secret123';
+// Native engine signs v1 without a JDK
+process.env.SIGNING_ENGINE ??= 'native';
+
+process.on('exit', () => fs.rmSync(uploadDir, { recursive: true, force: true }));
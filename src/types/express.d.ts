@@ -0,0 +1,12 @@
+import type { AuthIdentity } from './index.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by authMiddleware */
+      auth?: AuthIdentity;
+    }
+  }
+}
+
+export {};
@@ -1,7 +1,156 @@
+export type SignatureScheme = 'v1' | 'v2' | 'v3';
+
+/**
+ * apks (bundletool) and xapk are split APK sets, every APK inside is signed with the same key
+ * zip is the archive of batch signing outputs, it is never signed itself
+ */
+export type ArtifactType = 'apk' | 'aab' | 'apks' | 'xapk' | 'zip';
+
+export type TokenOperation = 'sign' | 'download' | 'verify' | 'admin';
+
+export interface ApiTokenConfig {
+  name: string;
+  /** SHA-256 of the token, hex encoded */
+  tokenHash: string;
+  operations: TokenOperation[];
+  /** Allowed keystore registry IDs, "*" allows every key */
+  keys: string[];
+}
+
+/** Identity of authenticated token, attached to request as req.auth */
+export interface AuthIdentity {
+  name: string;
+  operations: TokenOperation[];
+  keys: string[];
+}
+
+export interface KeystoreConfig {
+  /** Registry ID used in the keyId request field */
+  id: string;
+  path: string;
+  password: string;
+  keyAlias: string;
+  keyPassword: string;
+  /** Package names the key may sign, "*" wildcards allowed; null allows any package */
+  allowedPackages: string[] | null;
+  /** Checks of APK manifest flags applied before signing with the key */
+  manifestRules: ManifestRules;
+  /** Signing lineage when the key replaced older keys, null if the key was never rotated */
+  rotation: KeyRotationConfig | null;
+}
+
+/**
+ * What an older signer in the lineage is still trusted for
+ * https://source.android.com/docs/security/features/apksigning/v3#key-rotation
+ */
+export interface SignerCapabilities {
+  installedData: boolean;
+  sharedUid: boolean;
+  permission: boolean;
+  rollback: boolean;
+  auth: boolean;
+}
+
+export interface KeyRotationConfig {
+  /** Registry IDs of previous keys, oldest first; the keystore's own key follows the last one */
+  lineage: Array<{ keyId: string; capabilities: SignerCapabilities }>;
+  /**
+   * API level from which the new key is used: below 33 the proof-of-rotation goes into the v3 block (Android 9+),
+   * 33 and above into the v3.1 block with the original key in v3
+   */
+  minSdkVersion: number;
+}
+
+export type ManifestRuleAction = 'off' | 'warn' | 'reject';
+
+export type ManifestRuleName = 'debuggable' | 'testOnly' | 'cleartextTraffic' | 'minTargetSdk';
+
+export interface ManifestRules {
+  debuggable: ManifestRuleAction;
+  testOnly: ManifestRuleAction;
+  cleartextTraffic: ManifestRuleAction;
+  minTargetSdk: { version: number; action: ManifestRuleAction } | null;
+}
+
+export interface ManifestRuleViolation {
+  rule: ManifestRuleName;
+  action: Exclude<ManifestRuleAction, 'off'>;
+  message: string;
+}
+
+export type StorageDriverName = 'local' | 's3';
+
+/** v1 signing implementation: built-in or JDK jarsigner */
+export type SigningEngine = 'native' | 'jarsigner';
+
+export interface S3StorageConfig {
+  /** Custom endpoint for S3-compatible services (MinIO etc.), AWS when empty */
+  endpoint?: string;
+  region: string;
+  bucket: string;
+  /** Key prefix inside the bucket, e.g. "signed/" */
+  prefix: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+}
+
+export interface StorageConfig {
+  driver: StorageDriverName;
+  s3: S3StorageConfig | null;
+}
+
+export interface StoredObjectInfo {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+/** Object contents with version token for conditional writes (ETag in S3) */
+export interface VersionedObject {
+  data: Buffer;
+  version: string;
+}
+
+/** Inclusive byte range of object */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Backend keeping signed artifacts
+ * Keys are flat object names like "<fileId>.apk"
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  /** Whether objects are visible to every service replica */
+  readonly shared: boolean;
+  /** Moves local file into storage (source file is removed) */
+  putFile(key: string, filePath: string, contentType: string): Promise<void>;
+  putObject(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** @returns Object contents or null if it does not exist */
+  getObject(key: string): Promise<Buffer | null>;
+  /** @returns Object contents with its version or null if it does not exist */
+  getVersionedObject(key: string): Promise<VersionedObject | null>;
+  /**
+   * Writes object only if it still has the given version
+   * 
+   * @returns false when the object was changed or removed in the meantime
+   */
+  putObjectIfVersion(key: string, data: Buffer, contentType: string, version: string): Promise<boolean>;
+  createReadStream(key: string, range?: ByteRange): Promise<NodeJS.ReadableStream>;
+  /** @returns Object info or null if it does not exist */
+  stat(key: string): Promise<StoredObjectInfo | null>;
+  delete(key: string): Promise<void>;
+  list(): Promise<StoredObjectInfo[]>;
+}
+
 export interface Config {
   port: number;
   nodeEnv: string;
-  staticAuthToken: string;
+  staticAuthToken: string | null;
+  apiTokens: ApiTokenConfig[];
   ssl: {
     enabled: boolean;
     domain: string;
@@ -11,11 +160,18 @@ export interface Config {
     httpPort: number;
     httpsPort: number;
   };
-  keystore: {
-    path: string;
-    password: string;
-    keyAlias: string;
-    keyPassword: string;
+  storage: StorageConfig;
+  keystores: {
+    entries: KeystoreConfig[];
+    defaultId: string;
+  };
+  signing: {
+    defaultSchemes: SignatureScheme[];
+    engine: SigningEngine;
+    maxConcurrency: number;
+    maxQueue: number;
+    /** Reject sign requests for keys whose certificate has expired */
+    refuseExpiredCertificate: boolean;
   };
   upload: {
     dir: string;
@@ -23,6 +179,20 @@ export interface Config {
     retentionHours: number;
     maxFilesPerDirectory: number;
   };
+  audit: {
+    /** Hash-chained JSON-lines audit log */
+    logPath: string;
+  };
+  readiness: {
+    /** Free space required in UPLOAD_DIR for /ready to pass */
+    minFreeDiskBytes: number;
+  };
+  downloadLinks: {
+    /** HMAC secret, pre-signed links are disabled when null */
+    secret: string | null;
+    defaultTtlSeconds: number;
+    defaultMaxUses: number;
+  };
 }
 
 export interface SignResponse {
@@ -30,10 +200,314 @@ export interface SignResponse {
   downloadUrl: string;
   filename: string;
   expiresAt: string;
+  type: ArtifactType;
+  schemes: SignatureScheme[];
+  keyId: string;
+  /** Present when downloadUrl is pre-signed (usable without Authorization header) */
+  downloadUrlExpiresAt?: string;
+  downloadUrlMaxUses?: number;
+  /** Decoded AndroidManifest.xml, null for app bundles (protobuf manifest) */
+  manifest: ApkManifestInfo | null;
+  /** Manifest rules of the key violated with "warn" action */
+  warnings?: ManifestRuleViolation[];
+  /** zipalign check of the signed APK, null for app bundles and split APK sets */
+  alignment: ZipAlignmentReport | null;
+  /** Table of contents of signed split APK set (.apks, .xapk) */
+  splits?: SplitApkInfo[];
+}
+
+/**
+ * APK inside signed split APK set
+ */
+export interface SplitApkInfo {
+  /** Entry path inside the container, e.g. "splits/base-master.apk" */
+  name: string;
+  /** Split name from the manifest, null for base, standalone and universal APKs */
+  split: string | null;
+  /** Signed APK size in bytes */
+  size: number;
+  /** Signed APK SHA-256 (hex) */
+  sha256: string;
+  alignment: ZipAlignmentReport;
+}
+
+/**
+ * Outcome of one file of POST /api/sign/batch
+ */
+export interface BatchSignFileResult {
+  /** Uploaded file name, or entry path inside the uploaded ZIP */
+  name: string;
+  success: boolean;
+  /** Present when the file was signed */
+  signed?: SignResponse;
+  /** Status POST /api/sign would have responded with, present on failure */
+  status?: number;
+  error?: string;
+  details?: string;
+  violations?: ManifestRuleViolation[];
+}
+
+export interface BatchSignResponse {
+  /** True when every file was signed */
+  success: boolean;
+  signed: number;
+  failed: number;
+  results: BatchSignFileResult[];
+  /** ZIP of all signed files, present with archive=true when at least one file was signed */
+  archive?: {
+    downloadUrl: string;
+    filename: string;
+    expiresAt: string;
+    size: number;
+    downloadUrlExpiresAt?: string;
+    downloadUrlMaxUses?: number;
+  };
+}
+
+/**
+ * Alignment of uncompressed ZIP entries:
+ * 4 bytes, 16KB for native libraries (.so)
+ */
+export interface ZipAlignmentReport {
+  aligned: boolean;
+  /** Number of uncompressed entries checked */
+  checkedEntries: number;
+  misaligned: Array<{
+    name: string;
+    /** Offset of entry data in the archive */
+    offset: number;
+    alignment: number;
+  }>;
+}
+
+/**
+ * Values from binary AndroidManifest.xml
+ * Fields are null when not declared or set via resource reference
+ */
+export interface ApkManifestInfo {
+  packageName: string;
+  /** Name of split APK (split attribute), null for base and standalone APKs */
+  split: string | null;
+  versionCode: number | null;
+  versionName: string | null;
+  minSdkVersion: number | null;
+  targetSdkVersion: number | null;
+  debuggable: boolean;
+  testOnly: boolean;
+  /** Effective android:usesCleartextTraffic (defaults to true below targetSdk 28), network security config is not inspected */
+  usesCleartextTraffic: boolean;
+}
+
+/**
+ * Metadata of signed artifact kept in artifact store
+ */
+export interface ArtifactRecord {
+  fileId: string;
+  type: ArtifactType;
+  /** Name of the uploaded file as sent by client */
+  originalName: string;
+  /** Name served in Content-Disposition on download */
+  filename: string;
+  size: number;
+  sha256: string;
+  keyId: string;
+  schemes: SignatureScheme[];
+  /** Token name that requested signing */
+  requester?: string;
+  createdAt: string;
+  expiresAt: string;
+  /** Pre-signed download links issued for the artifact */
+  downloadLinks?: DownloadLinkState[];
+  /** File limit pruning skips the artifact until then, e.g. batch outputs until the batch archive is written */
+  heldUntil?: string;
+}
+
+/**
+ * Server-side state of pre-signed download link
+ */
+export interface DownloadLinkState {
+  id: string;
+  expiresAt: string;
+  remainingUses: number;
+  /** When a use was last consumed, resumed ranges are allowed shortly after it */
+  consumedAt?: string;
+}
+
+/**
+ * State of resumable (chunked) upload
+ */
+export type AuditEvent = 'sign.success' | 'sign.package_refused' | 'sign.manifest_rejected';
+
+/**
+ * Line of the audit log, hash covers all other fields and hash of the previous entry
+ */
+export interface AuditEntry {
+  seq: number;
+  timestamp: string;
+  event: AuditEvent;
+  /** Token name */
+  requester: string | null;
+  ip: string | null;
+  keyId: string;
+  keyAlias: string;
+  packageName: string | null;
+  inputSha256: string | null;
+  outputSha256: string | null;
+  fileId: string | null;
+  details: string | null;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditListResponse {
+  entries: AuditEntry[];
+  page: number;
+  limit: number;
+  total: number;
+}
+
+export interface AuditVerificationResult {
+  valid: boolean;
+  entries: number;
+  /** Last entry, to be compared with a previously saved head to detect truncation */
+  head: { seq: number; hash: string } | null;
+  /** First broken line (1-based) and reason */
+  error?: { line: number; message: string };
+}
+
+export interface ChunkedUploadSession {
+  uploadId: string;
+  filename: string;
+  /** Total file size declared by client */
+  length: number;
+  /** Bytes received so far */
+  offset: number;
+  /** Expected SHA-256 of the whole file (hex) */
+  sha256: string;
+  requester?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FileListResponse {
+  files: ArtifactRecord[];
+  page: number;
+  limit: number;
+  total: number;
+}
+
+export interface SigningQueueStats {
+  running: number;
+  queued: number;
+  maxConcurrency: number;
+  maxQueue: number;
+  averageWaitMs: number;
+  oldestWaitMs: number;
 }
 
 export interface HealthResponse {
   status: 'ok' | 'error';
   uptime: number;
   timestamp: string;
+  signingQueue: SigningQueueStats;
+  certificates: CertificateSummary;
+}
+
+/**
+ * Counts of signer certificates by state, details are available to admins only
+ */
+export interface CertificateSummary {
+  total: number;
+  /** Less than 30 days left */
+  expiringSoon: number;
+  expired: number;
+  /** Keystore or certificate could not be read */
+  unreadable: number;
+}
+
+/**
+ * Expiry state of signer certificate, refreshed on startup and hourly
+ */
+export interface CertificateExpiryStatus {
+  keyId: string;
+  keyAlias: string;
+  validTo: string | null;
+  daysRemaining: number | null;
+  expired: boolean;
+  /**
+   * Set when a key of the rotation lineage expires before the key itself,
+   * validTo, daysRemaining and expired then describe that key's certificate
+   */
+  lineageKeyId?: string;
+  /** Set when certificate could not be read */
+  error?: string;
+}
+
+export interface ReadinessCheck {
+  /** Check name, e.g. "keystore:default", "tool:jarsigner", "disk" */
+  name: string;
+  status: 'pass' | 'fail';
+  message?: string;
+}
+
+export interface ReadinessResponse {
+  status: 'ready' | 'not_ready';
+  checks: ReadinessCheck[];
+  timestamp: string;
+}
+
+export interface CertificateInfo {
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  sha256Fingerprint: string;
+  validFrom: string;
+  validTo: string;
+}
+
+export interface SchemeVerificationResult {
+  scheme: SignatureScheme;
+  verified: boolean;
+  signers: CertificateInfo[];
+  errors: string[];
+}
+
+export interface VerifyResponse {
+  success: boolean;
+  verified: boolean;
+  schemes: SignatureScheme[];
+  entryDigestsMatch: boolean;
+  results: SchemeVerificationResult[];
+  entries: {
+    total: number;
+    matched: number;
+    mismatched: string[];
+    unsigned: string[];
+  } | null;
+  /** Whether the APK would pass `zipalign -c -P 16 4`, does not affect "verified" */
+  alignment: ZipAlignmentReport;
+}
+
+export type JobStatus = 'queued' | 'validating' | 'signing' | 'done' | 'failed';
+
+export interface JobAcceptedResponse {
+  success: boolean;
+  jobId: string;
+  status: JobStatus;
+  statusUrl: string;
+}
+
+export interface JobResponse {
+  jobId: string;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  /** Present once the job is done */
+  result?: SignResponse;
+  /** Present when the job failed */
+  error?: {
+    message: string;
+    details?: string;
+    violations?: ManifestRuleViolation[];
+  };
 }
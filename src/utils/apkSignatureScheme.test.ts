@@ -0,0 +1,170 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { buildApk, createSigningKey } from '../test/apk.js';
+import {
+  applySigningBlock,
+  encodeSigningLineage,
+  V2_BLOCK_ID,
+  V31_BLOCK_ID,
+  V3_BLOCK_ID,
+  verifySigningBlock,
+  type SigningRotation,
+} from './apkSignatureScheme.js';
+import { alignApkFile, checkZipAlignment } from './zipAlign.js';
+import { readZipSections } from './zip.utils.js';
+
+const FULL_CAPABILITIES = { installedData: true, sharedUid: true, permission: true, rollback: false, auth: true };
+
+const originalKey = createSigningKey('Original Key');
+const currentKey = createSigningKey('Current Key');
+
+let workDir: string;
+
+beforeAll(async () => {
+  workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'signing-block-'));
+});
+
+afterAll(async () => {
+  await fs.remove(workDir);
+});
+
+/**
+ * Aligned APK written to work directory, ready for a signing block
+ */
+async function writeApk(name: string): Promise<string> {
+  const apkPath = path.join(workDir, name);
+  await fs.writeFile(apkPath, buildApk());
+  await alignApkFile(apkPath);
+  return apkPath;
+}
+
+/**
+ * ID-value pairs of APK Signing Block
+ */
+function signingBlockPairs(apk: Buffer): Map<number, Buffer> {
+  const { signingBlockOffset, cdOffset } = readZipSections(apk);
+  const pairs = new Map<number, Buffer>();
+  // Pairs sit between leading size and trailing size + magic
+  let offset = signingBlockOffset! + 8;
+  while (offset < cdOffset - 24) {
+    const length = Number(apk.readBigUInt64LE(offset));
+    pairs.set(apk.readUInt32LE(offset + 8), apk.subarray(offset + 12, offset + 8 + length));
+    offset += 8 + length;
+  }
+  return pairs;
+}
+
+function rotation(minSdkVersion: number): SigningRotation {
+  return {
+    original: originalKey,
+    lineage: encodeSigningLineage([
+      { key: originalKey, capabilities: FULL_CAPABILITIES },
+      { key: currentKey, capabilities: FULL_CAPABILITIES },
+    ]),
+    minSdkVersion,
+  };
+}
+
+describe('applySigningBlock', () => {
+  test('v2 and v3 blocks verify and keep entries aligned', async () => {
+    const apkPath = await writeApk('v2v3.apk');
+    await applySigningBlock(apkPath, currentKey, ['v2', 'v3']);
+    const apk = await fs.readFile(apkPath);
+
+    const results = verifySigningBlock(apk);
+    expect(results.map(r => [r.scheme, r.verified, r.errors])).toEqual([['v2', true, []], ['v3', true, []]]);
+    for (const result of results) {
+      expect(result.signers.map(c => c.fingerprint256)).toEqual([currentKey.certificate.fingerprint256]);
+    }
+    expect((await checkZipAlignment(apkPath)).aligned).toBe(true);
+  });
+
+  test('only requested schemes are written', async () => {
+    const apkPath = await writeApk('v2.apk');
+    await applySigningBlock(apkPath, currentKey, ['v2']);
+
+    expect(verifySigningBlock(await fs.readFile(apkPath)).map(r => r.scheme)).toEqual(['v2']);
+  });
+
+  test('signing again replaces the existing block', async () => {
+    const apkPath = await writeApk('resign.apk');
+    await applySigningBlock(apkPath, originalKey, ['v2', 'v3']);
+    await applySigningBlock(apkPath, currentKey, ['v2', 'v3']);
+    const apk = await fs.readFile(apkPath);
+
+    expect(apk.includes(originalKey.certificate.raw)).toBe(false);
+    for (const result of verifySigningBlock(apk)) {
+      expect(result.verified).toBe(true);
+      expect(result.signers[0]?.fingerprint256).toBe(currentKey.certificate.fingerprint256);
+    }
+  });
+
+  test('rotation before API 33 signs v2 with original key and v3 with current key and lineage', async () => {
+    const apkPath = await writeApk('rotation-28.apk');
+    const keyRotation = rotation(28);
+    await applySigningBlock(apkPath, currentKey, ['v2', 'v3'], keyRotation);
+    const apk = await fs.readFile(apkPath);
+
+    const [v2, v3] = verifySigningBlock(apk);
+    expect(v2?.verified).toBe(true);
+    expect(v2?.signers[0]?.fingerprint256).toBe(originalKey.certificate.fingerprint256);
+    expect(v3?.verified).toBe(true);
+    expect(v3?.signers[0]?.fingerprint256).toBe(currentKey.certificate.fingerprint256);
+
+    const pairs = signingBlockPairs(apk);
+    expect(pairs.get(V3_BLOCK_ID)?.includes(keyRotation.lineage)).toBe(true);
+    expect(pairs.has(V31_BLOCK_ID)).toBe(false);
+  });
+
+  test('rotation from API 33 keeps original key in v3 and puts current key into v3.1', async () => {
+    const apkPath = await writeApk('rotation-33.apk');
+    const keyRotation = rotation(33);
+    await applySigningBlock(apkPath, currentKey, ['v2', 'v3'], keyRotation);
+    const apk = await fs.readFile(apkPath);
+
+    const [v2, v3] = verifySigningBlock(apk);
+    expect(v2?.signers[0]?.fingerprint256).toBe(originalKey.certificate.fingerprint256);
+    expect(v3?.verified).toBe(true);
+    expect(v3?.signers[0]?.fingerprint256).toBe(originalKey.certificate.fingerprint256);
+
+    const pairs = signingBlockPairs(apk);
+    expect([...pairs.keys()]).toEqual([V2_BLOCK_ID, V3_BLOCK_ID, V31_BLOCK_ID]);
+    const v31 = pairs.get(V31_BLOCK_ID)!;
+    expect(v31.includes(currentKey.certificate.raw)).toBe(true);
+    expect(v31.includes(keyRotation.lineage)).toBe(true);
+    expect(pairs.get(V3_BLOCK_ID)?.includes(keyRotation.lineage)).toBe(false);
+  });
+});
+
+describe('verifySigningBlock', () => {
+  test('unsigned APK has no blocks', () => {
+    expect(verifySigningBlock(buildApk())).toEqual([]);
+  });
+
+  test('changed entry data breaks content digest', async () => {
+    const apkPath = await writeApk('tampered.apk');
+    await applySigningBlock(apkPath, currentKey, ['v2', 'v3']);
+    const apk = await fs.readFile(apkPath);
+    apk[100] = apk[100]! ^ 0xff;
+
+    for (const result of verifySigningBlock(apk)) {
+      expect(result.verified).toBe(false);
+      expect(result.contentDigestMatches).toBe(false);
+    }
+  });
+
+  test('changed signed data breaks signature', async () => {
+    const apkPath = await writeApk('bad-signature.apk');
+    await applySigningBlock(apkPath, currentKey, ['v2']);
+    const apk = await fs.readFile(apkPath);
+    // Certificate sits inside signed data
+    const certificateOffset = apk.indexOf(currentKey.certificate.raw);
+    apk[certificateOffset + 200] = apk[certificateOffset + 200]! ^ 0xff;
+
+    const [v2] = verifySigningBlock(apk);
+    expect(v2?.verified).toBe(false);
+    expect(v2?.contentDigestMatches).toBe(true);
+  });
+});
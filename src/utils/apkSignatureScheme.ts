@@ -0,0 +1,576 @@
+import crypto from 'crypto';
+import type { FileHandle } from 'fs/promises';
+import type { SignerCapabilities } from '../types/index.js';
+import type { SigningKey } from './keystore.js';
+import {
+  APK_SIGNING_BLOCK_MAGIC,
+  openZipFile,
+  readFileRange,
+  readZipSections,
+  withCentralDirectoryOffset,
+} from './zip.utils.js';
+
+/**
+ * APK Signature Scheme v2/v3 implementation
+ * https://source.android.com/docs/security/features/apksigning/v2
+ * https://source.android.com/docs/security/features/apksigning/v3
+ * Key rotation (proof-of-rotation, v3.1): https://source.android.com/docs/security/features/apksigning/v3-1
+ */
+
+export type BlockScheme = 'v2' | 'v3';
+
+export const V2_BLOCK_ID = 0x7109871a;
+export const V3_BLOCK_ID = 0xf05368c0;
+export const V31_BLOCK_ID = 0x1b93ad61;
+
+/** v2 signed-data attribute telling verifiers that a newer scheme is also present */
+const STRIPPING_PROTECTION_ATTR_ID = 0xbeeff00d;
+/** v3 signed-data attribute with signing lineage ending in the signer's certificate */
+const PROOF_OF_ROTATION_ATTR_ID = 0x3ba06f8c;
+/** v3 signed-data attribute telling verifiers that v3.1 block carries the rotated signer */
+const ROTATION_MIN_SDK_VERSION_ATTR_ID = 0x559f8b02;
+
+const LINEAGE_VERSION = 1;
+const LINEAGE_FILE_MAGIC = 0x3eff39d1;
+
+const CAPABILITY_FLAGS: Record<keyof SignerCapabilities, number> = {
+  installedData: 1,
+  sharedUid: 2,
+  permission: 4,
+  rollback: 8,
+  auth: 16,
+};
+
+const CHUNK_SIZE = 1024 * 1024;
+
+type ContentHash = 'sha256' | 'sha512';
+
+// v3 applies to Android 9 (API 28) and above, v3.1 to Android 13 (API 33) and above
+const V3_MIN_SDK = 28;
+const V3_MAX_SDK = 0x7fffffff;
+const V31_MIN_SDK = 33;
+
+interface SignatureAlgorithm {
+  id: number;
+  dsaEncoding?: 'der';
+}
+
+/**
+ * Picks signature algorithm ID for the key type (all use SHA2-256)
+ */
+function getSignatureAlgorithm(key: SigningKey): SignatureAlgorithm {
+  switch (key.privateKey.asymmetricKeyType) {
+    case 'rsa':
+      return { id: 0x0103 }; // RSASSA-PKCS1-v1_5 with SHA2-256
+    case 'ec':
+      return { id: 0x0201, dsaEncoding: 'der' }; // ECDSA with SHA2-256
+    case 'dsa':
+      return { id: 0x0301, dsaEncoding: 'der' }; // DSA with SHA2-256
+    default:
+      throw new Error(`Unsupported signing key type: ${key.privateKey.asymmetricKeyType}`);
+  }
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value >>> 0);
+  return buffer;
+}
+
+function uint64(value: number): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(BigInt(value));
+  return buffer;
+}
+
+function lengthPrefixed(data: Buffer): Buffer {
+  return Buffer.concat([uint32(data.length), data]);
+}
+
+function lengthPrefixedSequence(items: Buffer[]): Buffer {
+  return lengthPrefixed(Buffer.concat(items.map(lengthPrefixed)));
+}
+
+function chunkDigest(chunk: Buffer, hash: ContentHash): Buffer {
+  return crypto.createHash(hash)
+    .update(Buffer.from([0xa5]))
+    .update(uint32(chunk.length))
+    .update(chunk)
+    .digest();
+}
+
+function sectionChunkDigests(section: Buffer, hash: ContentHash): Buffer[] {
+  const digests: Buffer[] = [];
+  for (let offset = 0; offset < section.length; offset += CHUNK_SIZE) {
+    digests.push(chunkDigest(section.subarray(offset, Math.min(offset + CHUNK_SIZE, section.length)), hash));
+  }
+  return digests;
+}
+
+function combineChunkDigests(chunkDigests: Buffer[], hash: ContentHash): Buffer {
+  return crypto.createHash(hash)
+    .update(Buffer.from([0x5a]))
+    .update(uint32(chunkDigests.length))
+    .update(Buffer.concat(chunkDigests))
+    .digest();
+}
+
+/**
+ * Computes v2+ content digest: hash over 1MB chunks of each section,
+ * then hash over the concatenation of chunk digests
+ */
+export function computeContentDigest(sections: Buffer[], hash: ContentHash = 'sha256'): Buffer {
+  return combineChunkDigests(sections.flatMap(section => sectionChunkDigests(section, hash)), hash);
+}
+
+/**
+ * Same digest with ZIP entries read from file chunk by chunk into one buffer
+ *
+ * @param entriesEnd - Length of the entries section at the start of the file
+ * @param sections - Central Directory and EOCD, already in memory
+ */
+async function computeFileContentDigest(
+  handle: FileHandle,
+  entriesEnd: number,
+  sections: Buffer[],
+  hash: ContentHash = 'sha256'
+): Promise<Buffer> {
+  const chunk = Buffer.alloc(CHUNK_SIZE);
+  const chunkDigests: Buffer[] = [];
+
+  for (let offset = 0; offset < entriesEnd; offset += CHUNK_SIZE) {
+    const data = await readFileRange(handle, offset, Math.min(CHUNK_SIZE, entriesEnd - offset), chunk);
+    chunkDigests.push(chunkDigest(data, hash));
+  }
+
+  return combineChunkDigests([...chunkDigests, ...sections.flatMap(section => sectionChunkDigests(section, hash))], hash);
+}
+
+function signData(key: SigningKey, algorithm: SignatureAlgorithm, data: Buffer): Buffer {
+  return crypto.sign('sha256', data, {
+    key: key.privateKey,
+    ...(algorithm.dsaEncoding && { dsaEncoding: algorithm.dsaEncoding }),
+  });
+}
+
+function encodeAttributes(attributes: Array<{ id: number; value: Buffer }>): Buffer {
+  return lengthPrefixedSequence(attributes.map(a => Buffer.concat([uint32(a.id), a.value])));
+}
+
+function buildV2Signer(key: SigningKey, digest: Buffer, withV3: boolean): Buffer {
+  const algorithm = getSignatureAlgorithm(key);
+  const attributes = withV3 ? [{ id: STRIPPING_PROTECTION_ATTR_ID, value: uint32(3) }] : [];
+
+  const signedData = Buffer.concat([
+    lengthPrefixedSequence([Buffer.concat([uint32(algorithm.id), lengthPrefixed(digest)])]),
+    lengthPrefixedSequence([key.certificate.raw]),
+    encodeAttributes(attributes),
+  ]);
+
+  const signature = signData(key, algorithm, signedData);
+  const publicKey = key.certificate.publicKey.export({ type: 'spki', format: 'der' });
+
+  return Buffer.concat([
+    lengthPrefixed(signedData),
+    lengthPrefixedSequence([Buffer.concat([uint32(algorithm.id), lengthPrefixed(signature)])]),
+    lengthPrefixed(publicKey),
+  ]);
+}
+
+interface V3SignerOptions {
+  minSdk: number;
+  maxSdk: number;
+  attributes: Array<{ id: number; value: Buffer }>;
+}
+
+function buildV3Signer(key: SigningKey, digest: Buffer, options: V3SignerOptions): Buffer {
+  const algorithm = getSignatureAlgorithm(key);
+
+  const signedData = Buffer.concat([
+    lengthPrefixedSequence([Buffer.concat([uint32(algorithm.id), lengthPrefixed(digest)])]),
+    lengthPrefixedSequence([key.certificate.raw]),
+    uint32(options.minSdk),
+    uint32(options.maxSdk),
+    encodeAttributes(options.attributes),
+  ]);
+
+  const signature = signData(key, algorithm, signedData);
+  const publicKey = key.certificate.publicKey.export({ type: 'spki', format: 'der' });
+
+  return Buffer.concat([
+    lengthPrefixed(signedData),
+    uint32(options.minSdk),
+    uint32(options.maxSdk),
+    lengthPrefixedSequence([Buffer.concat([uint32(algorithm.id), lengthPrefixed(signature)])]),
+    lengthPrefixed(publicKey),
+  ]);
+}
+
+export interface LineageSigner {
+  key: SigningKey;
+  capabilities: SignerCapabilities;
+}
+
+/**
+ * Encodes signing lineage: every certificate is signed by the key of the previous one
+ *
+ * @param signers - Signers oldest first, the last one is the current signer
+ * @returns Value of the proof-of-rotation attribute
+ */
+export function encodeSigningLineage(signers: LineageSigner[]): Buffer {
+  const nodes = signers.map((signer, index) => {
+    const parent = signers[index - 1];
+    const parentAlgorithm = parent ? getSignatureAlgorithm(parent.key) : null;
+
+    const signedData = Buffer.concat([
+      lengthPrefixed(signer.key.certificate.raw),
+      uint32(parentAlgorithm?.id ?? 0),
+    ]);
+    const signature = parent ? signData(parent.key, parentAlgorithm!, signedData) : Buffer.alloc(0);
+    const flags = Object.entries(signer.capabilities)
+      .reduce((sum, [name, granted]) => sum | (granted ? CAPABILITY_FLAGS[name as keyof SignerCapabilities] : 0), 0);
+    // Algorithm this signer uses for the next certificate, 0 for the current signer
+    const nextAlgorithm = index < signers.length - 1 ? getSignatureAlgorithm(signer.key).id : 0;
+
+    return Buffer.concat([
+      lengthPrefixed(signedData),
+      uint32(flags),
+      uint32(nextAlgorithm),
+      lengthPrefixed(signature),
+    ]);
+  });
+
+  return Buffer.concat([uint32(LINEAGE_VERSION), ...nodes.map(lengthPrefixed)]);
+}
+
+/**
+ * Wraps encoded lineage into the file format read by `apksigner --lineage`
+ */
+export function encodeLineageFile(lineage: Buffer): Buffer {
+  return Buffer.concat([uint32(LINEAGE_FILE_MAGIC), uint32(LINEAGE_VERSION), lengthPrefixed(lineage)]);
+}
+
+export interface SigningRotation {
+  /** Oldest key of the lineage, signs v2 and, when rotation targets API 33+, the v3 block */
+  original: SigningKey;
+  /** Result of encodeSigningLineage ending with the current key */
+  lineage: Buffer;
+  /** API level from which the current key is used */
+  minSdkVersion: number;
+}
+
+/**
+ * v3 block, and v3.1 block when rotation starts at API 33+
+ */
+function buildV3Blocks(
+  key: SigningKey,
+  digest: Buffer,
+  rotation: SigningRotation | null
+): Array<{ id: number; value: Buffer }> {
+  const proofOfRotation = rotation ? [{ id: PROOF_OF_ROTATION_ATTR_ID, value: rotation.lineage }] : [];
+
+  if (!rotation || rotation.minSdkVersion < V31_MIN_SDK) {
+    return [{
+      id: V3_BLOCK_ID,
+      value: lengthPrefixedSequence([
+        buildV3Signer(key, digest, { minSdk: V3_MIN_SDK, maxSdk: V3_MAX_SDK, attributes: proofOfRotation }),
+      ]),
+    }];
+  }
+
+  return [
+    {
+      id: V3_BLOCK_ID,
+      value: lengthPrefixedSequence([buildV3Signer(rotation.original, digest, {
+        minSdk: V3_MIN_SDK,
+        maxSdk: rotation.minSdkVersion - 1,
+        attributes: [{ id: ROTATION_MIN_SDK_VERSION_ATTR_ID, value: uint32(rotation.minSdkVersion) }],
+      })]),
+    },
+    {
+      id: V31_BLOCK_ID,
+      value: lengthPrefixedSequence([buildV3Signer(key, digest, {
+        minSdk: rotation.minSdkVersion,
+        maxSdk: V3_MAX_SDK,
+        attributes: proofOfRotation,
+      })]),
+    },
+  ];
+}
+
+/**
+ * Serializes APK Signing Block from ID-value pairs
+ */
+function buildSigningBlock(pairs: Array<{ id: number; value: Buffer }>): Buffer {
+  const encodedPairs = Buffer.concat(pairs.map(pair => Buffer.concat([
+    uint64(4 + pair.value.length),
+    uint32(pair.id),
+    pair.value,
+  ])));
+
+  // Size excludes the leading size field itself
+  const blockSize = encodedPairs.length + 8 + APK_SIGNING_BLOCK_MAGIC.length;
+
+  return Buffer.concat([
+    uint64(blockSize),
+    encodedPairs,
+    uint64(blockSize),
+    APK_SIGNING_BLOCK_MAGIC,
+  ]);
+}
+
+/**
+ * Signs APK in place with APK Signature Scheme v2 and/or v3
+ * Must run after any modification of ZIP entries (including v1 signing),
+ * any existing APK Signing Block is replaced
+ *
+ * Entries are only read for the content digest, the block, Central Directory and EOCD
+ * are written over the end of the file
+ *
+ * With rotation v2 is signed by the original key, v3 by the current key with proof-of-rotation;
+ * when rotation targets API 33+ the current key goes into v3.1 block and v3 keeps the original key
+ *
+ * @param apkPath - Path to APK file
+ * @param key - Signing key
+ * @param schemes - Block-based schemes to apply
+ * @param rotation - Lineage of the key, if it replaced older keys
+ */
+export async function applySigningBlock(
+  apkPath: string,
+  key: SigningKey,
+  schemes: BlockScheme[],
+  rotation: SigningRotation | null = null
+): Promise<void> {
+  if (schemes.length === 0) {
+    return;
+  }
+
+  const zip = await openZipFile(apkPath, 'r+');
+
+  try {
+    const { sections, centralDirectory, eocd } = zip;
+
+    // EOCD is digested as if Central Directory started where the signing block will be
+    const digest = await computeFileContentDigest(zip.handle, sections.entriesEnd, [
+      centralDirectory,
+      withCentralDirectoryOffset(eocd, sections.entriesEnd),
+    ]);
+
+    const pairs: Array<{ id: number; value: Buffer }> = [];
+    if (schemes.includes('v2')) {
+      pairs.push({
+        id: V2_BLOCK_ID,
+        value: lengthPrefixedSequence([buildV2Signer(rotation?.original ?? key, digest, schemes.includes('v3'))]),
+      });
+    }
+    if (schemes.includes('v3')) {
+      pairs.push(...buildV3Blocks(key, digest, rotation));
+    }
+
+    const signingBlock = buildSigningBlock(pairs);
+    const tail = Buffer.concat([
+      signingBlock,
+      centralDirectory,
+      withCentralDirectoryOffset(eocd, sections.entriesEnd + signingBlock.length),
+    ]);
+
+    await zip.handle.write(tail, 0, tail.length, sections.entriesEnd);
+    await zip.handle.truncate(sections.entriesEnd + tail.length);
+  } finally {
+    await zip.handle.close();
+  }
+}
+
+export interface BlockVerification {
+  scheme: BlockScheme;
+  verified: boolean;
+  contentDigestMatches: boolean;
+  signers: crypto.X509Certificate[];
+  errors: string[];
+}
+
+const CONTENT_DIGEST_MISMATCH = 'APK content digest mismatch';
+
+
+// Signature algorithms accepted during verification
+const VERIFY_ALGORITHMS: Record<number, { hash: ContentHash; pss?: boolean }> = {
+  0x0101: { hash: 'sha256', pss: true },
+  0x0102: { hash: 'sha512', pss: true },
+  0x0103: { hash: 'sha256' },
+  0x0104: { hash: 'sha512' },
+  0x0201: { hash: 'sha256' },
+  0x0202: { hash: 'sha512' },
+  0x0301: { hash: 'sha256' },
+};
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  get remaining(): number {
+    return this.buffer.length - this.offset;
+  }
+
+  bytes(length: number): Buffer {
+    if (length > this.remaining) {
+      throw new Error('Truncated APK Signing Block data');
+    }
+    const value = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  uint32(): number {
+    return this.bytes(4).readUInt32LE(0);
+  }
+
+  lengthPrefixed(): Buffer {
+    return this.bytes(this.uint32());
+  }
+
+  sequence(): Buffer[] {
+    const reader = new ByteReader(this.lengthPrefixed());
+    const items: Buffer[] = [];
+    while (reader.remaining > 0) {
+      items.push(reader.lengthPrefixed());
+    }
+    return items;
+  }
+}
+
+/**
+ * Reads ID-value pairs of APK Signing Block
+ */
+function readSigningBlockPairs(block: Buffer): Map<number, Buffer> {
+  const pairs = new Map<number, Buffer>();
+  // Skip leading size, stop before trailing size and magic
+  const reader = new ByteReader(block.subarray(8, block.length - 8 - APK_SIGNING_BLOCK_MAGIC.length));
+
+  while (reader.remaining > 0) {
+    const pair = reader.bytes(Number(reader.bytes(8).readBigUInt64LE(0)));
+    pairs.set(pair.readUInt32LE(0), pair.subarray(4));
+  }
+
+  return pairs;
+}
+
+function verifyBlockSigner(
+  signer: Buffer,
+  scheme: BlockScheme,
+  contentDigest: (hash: ContentHash) => Buffer
+): crypto.X509Certificate {
+  const reader = new ByteReader(signer);
+  const signedData = reader.lengthPrefixed();
+  if (scheme === 'v3') {
+    reader.uint32(); // minSdk
+    reader.uint32(); // maxSdk
+  }
+  const signatures = reader.sequence().map(s => {
+    const r = new ByteReader(s);
+    return { id: r.uint32(), value: r.lengthPrefixed() };
+  });
+  const publicKeyDer = reader.lengthPrefixed();
+  const publicKey = crypto.createPublicKey({ key: publicKeyDer, format: 'der', type: 'spki' });
+
+  const supported = signatures.filter(s => VERIFY_ALGORITHMS[s.id]);
+  if (supported.length === 0) {
+    throw new Error('No supported signature algorithm');
+  }
+
+  for (const signature of supported) {
+    const algorithm = VERIFY_ALGORITHMS[signature.id]!;
+    const valid = crypto.verify(algorithm.hash, signedData, {
+      key: publicKey,
+      ...(algorithm.pss && {
+        padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: algorithm.hash === 'sha256' ? 32 : 64,
+      }),
+    }, signature.value);
+
+    if (!valid) {
+      throw new Error('Signature over signed data is invalid');
+    }
+  }
+
+  const data = new ByteReader(signedData);
+  const digests = data.sequence().map(d => {
+    const r = new ByteReader(d);
+    return { id: r.uint32(), value: r.lengthPrefixed() };
+  });
+  const certificates = data.sequence().map(c => new crypto.X509Certificate(c));
+
+  for (const signature of supported) {
+    const digest = digests.find(d => d.id === signature.id);
+    if (!digest) {
+      throw new Error('Signed data has no digest for signature algorithm');
+    }
+    if (!digest.value.equals(contentDigest(VERIFY_ALGORITHMS[signature.id]!.hash))) {
+      throw new Error(CONTENT_DIGEST_MISMATCH);
+    }
+  }
+
+  const certificate = certificates[0];
+  if (!certificate) {
+    throw new Error('Signer has no certificates');
+  }
+  if (!certificate.publicKey.export({ type: 'spki', format: 'der' }).equals(publicKeyDer)) {
+    throw new Error('Signer public key does not match certificate');
+  }
+
+  return certificate;
+}
+
+/**
+ * Verifies v2/v3 signatures found in APK Signing Block
+ *
+ * @param apk - Whole APK contents
+ * @returns One result per scheme present in the block (empty if there is no block)
+ */
+export function verifySigningBlock(apk: Buffer): BlockVerification[] {
+  const sections = readZipSections(apk);
+  if (sections.signingBlockOffset === null) {
+    return [];
+  }
+
+  const pairs = readSigningBlockPairs(apk.subarray(sections.signingBlockOffset, sections.cdOffset));
+  const digestCache = new Map<ContentHash, Buffer>();
+  const contentDigest = (hash: ContentHash) => {
+    let digest = digestCache.get(hash);
+    if (!digest) {
+      digest = computeContentDigest([
+        apk.subarray(0, sections.signingBlockOffset!),
+        apk.subarray(sections.cdOffset, sections.eocdOffset),
+        withCentralDirectoryOffset(apk.subarray(sections.eocdOffset), sections.signingBlockOffset!),
+      ], hash);
+      digestCache.set(hash, digest);
+    }
+    return digest;
+  };
+
+  const results: BlockVerification[] = [];
+  const blocks: Array<[BlockScheme, number]> = [['v2', V2_BLOCK_ID], ['v3', V3_BLOCK_ID]];
+
+  for (const [scheme, id] of blocks) {
+    const value = pairs.get(id);
+    if (!value) continue;
+
+    const result: BlockVerification = { scheme, verified: false, contentDigestMatches: true, signers: [], errors: [] };
+    try {
+      const signers = new ByteReader(value).sequence();
+      if (signers.length === 0) {
+        throw new Error('No signers');
+      }
+      for (const signer of signers) {
+        result.signers.push(verifyBlockSigner(signer, scheme, contentDigest));
+      }
+      result.verified = true;
+    } catch (error) {
+      result.errors.push((error as Error).message);
+      result.contentDigestMatches = (error as Error).message !== CONTENT_DIGEST_MISMATCH;
+    }
+    results.push(result);
+  }
+
+  return results;
+}
@@ -0,0 +1,74 @@
+import type { ArtifactType } from '../types/index.js';
+
+interface ArtifactFormat {
+  extension: string;
+  contentType: string;
+  label: string;
+}
+
+export const ARTIFACT_FORMATS: Record<ArtifactType, ArtifactFormat> = {
+  apk: {
+    extension: 'apk',
+    contentType: 'application/vnd.android.package-archive',
+    label: 'APK',
+  },
+  aab: {
+    extension: 'aab',
+    contentType: 'application/octet-stream',
+    label: 'AAB',
+  },
+  apks: {
+    extension: 'apks',
+    contentType: 'application/octet-stream',
+    label: 'APKS',
+  },
+  xapk: {
+    extension: 'xapk',
+    contentType: 'application/octet-stream',
+    label: 'XAPK',
+  },
+  zip: {
+    extension: 'zip',
+    contentType: 'application/zip',
+    label: 'ZIP',
+  },
+};
+
+// Extensions accepted for signing, anything else is only allowed by its APK MIME type
+const SIGNABLE_EXTENSIONS = ['.apk', '.aab', '.apks', '.xapk'];
+
+/**
+ * Detects artifact type from original filename
+ * Anything that is not an .aab bundle or split APK set is treated as APK,
+ * ZIP archives are only produced by the service
+ */
+export function detectArtifactType(filename: string): ArtifactType {
+  const name = filename.toLowerCase();
+  if (name.endsWith('.aab')) return 'aab';
+  if (name.endsWith('.apks')) return 'apks';
+  if (name.endsWith('.xapk')) return 'xapk';
+  return 'apk';
+}
+
+/**
+ * Whether filename has extension of a signable artifact
+ */
+export function isSignableFilename(filename: string): boolean {
+  const name = filename.toLowerCase();
+  return SIGNABLE_EXTENSIONS.some(extension => name.endsWith(extension));
+}
+
+/**
+ * Split APK sets are containers of APKs signed one by one
+ */
+export function isSplitApkSet(type: ArtifactType): type is 'apks' | 'xapk' {
+  return type === 'apks' || type === 'xapk';
+}
+
+/**
+ * Storage key of signed artifact, e.g. "<fileId>.apk"
+ * fileId must be validated with sanitizeFileId before use
+ */
+export function artifactKey(fileId: string, type: ArtifactType): string {
+  return `${fileId}.${ARTIFACT_FORMATS[type].extension}`;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import { readFixture } from '../test/apk.js';
+import { decodeApkManifest, findAttribute, parseAxml } from './axml.js';
+
+const ANDROID_NS = 'http://schemas.android.com/apk/res/android';
+
+describe('parseAxml', () => {
+  test('reads element tree with namespaces, resource IDs and typed values', () => {
+    const manifest = parseAxml(readFixture('debug.AndroidManifest.xml'));
+
+    expect(manifest.name).toBe('manifest');
+    expect(manifest.children.map(child => child.name)).toEqual(['uses-sdk', 'application']);
+    expect(manifest.attributes).toContainEqual({
+      namespace: ANDROID_NS,
+      name: 'versionCode',
+      resourceId: 0x0101021b,
+      value: 42,
+    });
+    expect(manifest.attributes).toContainEqual({ namespace: null, name: 'package', resourceId: null, value: 'com.example.app' });
+
+    const application = manifest.children[1]!;
+    expect(findAttribute(application, 'debuggable', 0x0101000f)).toBe(true);
+  });
+
+  test('reads UTF-16 string pools', () => {
+    const manifest = parseAxml(readFixture('split.AndroidManifest.xml'));
+    expect(findAttribute(manifest, 'split')).toBe('config.arm64_v8a');
+  });
+
+  test('rejects data that is not binary XML', () => {
+    expect(() => parseAxml(Buffer.from('<manifest package="x"/>'))).toThrow('Invalid binary XML');
+    expect(() => parseAxml(readFixture('debug.AndroidManifest.xml').subarray(0, 100))).toThrow('Invalid binary XML');
+  });
+});
+
+describe('decodeApkManifest', () => {
+  test('release manifest', () => {
+    expect(decodeApkManifest(readFixture('release.AndroidManifest.xml'))).toEqual({
+      packageName: 'com.example.rel',
+      split: null,
+      versionCode: 42,
+      versionName: '1.2.3',
+      minSdkVersion: 24,
+      targetSdkVersion: 34,
+      debuggable: false,
+      testOnly: false,
+      usesCleartextTraffic: true,
+    });
+  });
+
+  test('debuggable test-only manifest', () => {
+    const manifest = decodeApkManifest(readFixture('debug.AndroidManifest.xml'));
+    expect(manifest.packageName).toBe('com.example.app');
+    expect(manifest.debuggable).toBe(true);
+    expect(manifest.testOnly).toBe(true);
+  });
+
+  test('split APK manifest without uses-sdk', () => {
+    const manifest = decodeApkManifest(readFixture('split.AndroidManifest.xml'));
+    expect(manifest.split).toBe('config.arm64_v8a');
+    expect(manifest.minSdkVersion).toBeNull();
+    expect(manifest.targetSdkVersion).toBeNull();
+  });
+});
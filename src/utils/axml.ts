@@ -0,0 +1,290 @@
+/**
+ * Android binary XML (AXML) decoder, format of AndroidManifest.xml inside APK
+ * https://android.googlesource.com/platform/frameworks/base/+/master/libs/androidfw/include/androidfw/ResourceTypes.h
+ */
+
+import type { ApkManifestInfo } from '../types/index.js';
+
+export type AxmlValue = string | number | boolean | null;
+
+export interface AxmlAttribute {
+  namespace: string | null;
+  /** Attribute name, may be empty in obfuscated manifests (use resourceId then) */
+  name: string;
+  /** Android framework attribute ID (e.g. 0x0101021b for versionCode), null for plain attributes */
+  resourceId: number | null;
+  /** Decoded value; references are returned as "@0x7f..." strings */
+  value: AxmlValue;
+}
+
+export interface AxmlElement {
+  name: string;
+  attributes: AxmlAttribute[];
+  children: AxmlElement[];
+}
+
+const CHUNK_XML = 0x0003;
+const CHUNK_STRING_POOL = 0x0001;
+const CHUNK_RESOURCE_MAP = 0x0180;
+const CHUNK_START_ELEMENT = 0x0102;
+const CHUNK_END_ELEMENT = 0x0103;
+
+// Framework attribute IDs (android.R.attr)
+const ATTR_DEBUGGABLE = 0x0101000f;
+const ATTR_MIN_SDK_VERSION = 0x0101020c;
+const ATTR_VERSION_CODE = 0x0101021b;
+const ATTR_VERSION_NAME = 0x0101021c;
+const ATTR_TARGET_SDK_VERSION = 0x01010270;
+const ATTR_TEST_ONLY = 0x01010272;
+const ATTR_USES_CLEARTEXT_TRAFFIC = 0x010104ec;
+
+// Cleartext traffic is disabled by default starting with Android 9
+const CLEARTEXT_DISABLED_SINCE_SDK = 28;
+
+const STRING_POOL_UTF8 = 0x100;
+const NO_INDEX = 0xffffffff;
+
+// Res_value data types
+const TYPE_REFERENCE = 0x01;
+const TYPE_ATTRIBUTE = 0x02;
+const TYPE_STRING = 0x03;
+const TYPE_FLOAT = 0x04;
+const TYPE_INT_DEC = 0x10;
+const TYPE_INT_HEX = 0x11;
+const TYPE_INT_BOOLEAN = 0x12;
+const TYPE_FIRST_COLOR = 0x1c;
+const TYPE_LAST_COLOR = 0x1f;
+
+/**
+ * Reads string pool chunk
+ */
+function readStringPool(data: Buffer, offset: number): string[] {
+  const stringCount = data.readUInt32LE(offset + 8);
+  const flags = data.readUInt32LE(offset + 16);
+  const stringsStart = data.readUInt32LE(offset + 20);
+  const isUtf8 = (flags & STRING_POOL_UTF8) !== 0;
+  const headerSize = data.readUInt16LE(offset + 2);
+  const strings: string[] = [];
+
+  for (let i = 0; i < stringCount; i++) {
+    let position = offset + stringsStart + data.readUInt32LE(offset + headerSize + i * 4);
+
+    if (isUtf8) {
+      // UTF-16 length (skipped), then UTF-8 byte length, each 1 or 2 bytes
+      position += (data[position]! & 0x80) !== 0 ? 2 : 1;
+      let byteLength = data[position]!;
+      if ((byteLength & 0x80) !== 0) {
+        byteLength = ((byteLength & 0x7f) << 8) | data[position + 1]!;
+        position += 2;
+      } else {
+        position += 1;
+      }
+      strings.push(data.toString('utf8', position, position + byteLength));
+    } else {
+      let charLength = data.readUInt16LE(position);
+      if ((charLength & 0x8000) !== 0) {
+        charLength = ((charLength & 0x7fff) << 16) | data.readUInt16LE(position + 2);
+        position += 4;
+      } else {
+        position += 2;
+      }
+      strings.push(data.toString('utf16le', position, position + charLength * 2));
+    }
+  }
+
+  return strings;
+}
+
+function decodeValue(dataType: number, value: number, rawValue: number, strings: string[]): AxmlValue {
+  switch (dataType) {
+    case TYPE_STRING:
+      return strings[value] ?? null;
+    case TYPE_INT_DEC:
+    case TYPE_INT_HEX:
+      return value | 0;
+    case TYPE_INT_BOOLEAN:
+      return value !== 0;
+    case TYPE_REFERENCE:
+      return `@0x${value.toString(16).padStart(8, '0')}`;
+    case TYPE_ATTRIBUTE:
+      return `?0x${value.toString(16).padStart(8, '0')}`;
+    case TYPE_FLOAT: {
+      const buffer = Buffer.alloc(4);
+      buffer.writeUInt32LE(value);
+      return buffer.readFloatLE(0);
+    }
+    default:
+      if (dataType >= TYPE_FIRST_COLOR && dataType <= TYPE_LAST_COLOR) {
+        return `#${value.toString(16).padStart(8, '0')}`;
+      }
+      return rawValue !== NO_INDEX ? strings[rawValue] ?? null : value;
+  }
+}
+
+/**
+ * Decodes binary XML document
+ *
+ * @param data - Contents of binary XML file
+ * @returns Root element
+ * @throws Error if data is not a valid binary XML document
+ */
+export function parseAxml(data: Buffer): AxmlElement {
+  if (data.length < 8 || data.readUInt16LE(0) !== CHUNK_XML) {
+    throw new Error('Invalid binary XML: wrong file header');
+  }
+
+  const documentEnd = Math.min(data.readUInt32LE(4), data.length);
+  let strings: string[] = [];
+  let resourceIds: number[] = [];
+  const stack: AxmlElement[] = [];
+  let root: AxmlElement | null = null;
+  let offset = data.readUInt16LE(2);
+
+  try {
+    while (offset + 8 <= documentEnd) {
+      const type = data.readUInt16LE(offset);
+      const headerSize = data.readUInt16LE(offset + 2);
+      const size = data.readUInt32LE(offset + 4);
+
+      if (size < 8 || offset + size > documentEnd) {
+        throw new Error(`chunk at ${offset} has invalid size`);
+      }
+
+      switch (type) {
+        case CHUNK_STRING_POOL:
+          strings = readStringPool(data, offset);
+          break;
+
+        case CHUNK_RESOURCE_MAP:
+          resourceIds = [];
+          for (let p = offset + headerSize; p + 4 <= offset + size; p += 4) {
+            resourceIds.push(data.readUInt32LE(p));
+          }
+          break;
+
+        case CHUNK_START_ELEMENT: {
+          const ext = offset + headerSize;
+          const nameIndex = data.readUInt32LE(ext + 4);
+          const attributeStart = data.readUInt16LE(ext + 8);
+          const attributeSize = data.readUInt16LE(ext + 10);
+          const attributeCount = data.readUInt16LE(ext + 12);
+          const attributes: AxmlAttribute[] = [];
+
+          for (let i = 0; i < attributeCount; i++) {
+            const a = ext + attributeStart + i * attributeSize;
+            const namespaceIndex = data.readUInt32LE(a);
+            const attrNameIndex = data.readUInt32LE(a + 4);
+            const rawValue = data.readUInt32LE(a + 8);
+            const dataType = data[a + 15]!;
+            const value = data.readUInt32LE(a + 16);
+
+            attributes.push({
+              namespace: namespaceIndex !== NO_INDEX ? strings[namespaceIndex] ?? null : null,
+              name: strings[attrNameIndex] ?? '',
+              resourceId: resourceIds[attrNameIndex] ?? null,
+              value: decodeValue(dataType, value, rawValue, strings),
+            });
+          }
+
+          const element: AxmlElement = { name: strings[nameIndex] ?? '', attributes, children: [] };
+          const parent = stack[stack.length - 1];
+          if (parent) {
+            parent.children.push(element);
+          } else if (!root) {
+            root = element;
+          }
+          stack.push(element);
+          break;
+        }
+
+        case CHUNK_END_ELEMENT:
+          stack.pop();
+          break;
+      }
+
+      offset += size;
+    }
+  } catch (error) {
+    throw new Error(`Invalid binary XML: ${(error as Error).message}`);
+  }
+
+  if (!root) {
+    throw new Error('Invalid binary XML: no root element');
+  }
+
+  return root;
+}
+
+/**
+ * Finds attribute by framework resource ID or, if ID map is missing, by name
+ */
+export function findAttribute(element: AxmlElement, name: string, resourceId?: number): AxmlValue | undefined {
+  const attribute = element.attributes.find(a =>
+    resourceId !== undefined && a.resourceId !== null ? a.resourceId === resourceId : a.name === name
+  );
+  return attribute?.value;
+}
+
+function isResourceReference(value: AxmlValue | undefined): boolean {
+  return typeof value === 'string' && /^[@?]0x[0-9a-f]{8}$/.test(value);
+}
+
+function toInteger(value: AxmlValue | undefined): number | null {
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return value;
+  }
+  // minSdkVersion of preview builds is a codename ("VanillaIceCream"), not a number
+  if (typeof value === 'string' && /^\d+$/.test(value)) {
+    return Number(value);
+  }
+  return null;
+}
+
+/**
+ * Extracts identity and build flags from binary AndroidManifest.xml
+ * Values set via resource references (e.g. versionName="@string/version") are reported as null,
+ * resolving them would require decoding resources.arsc
+ *
+ * @param data - Contents of AndroidManifest.xml from APK
+ * @throws Error if manifest cannot be decoded or has no package name
+ */
+export function decodeApkManifest(data: Buffer): ApkManifestInfo {
+  const manifest = parseAxml(data);
+
+  if (manifest.name !== 'manifest') {
+    throw new Error(`Invalid binary XML: unexpected root element <${manifest.name}>`);
+  }
+
+  const packageName = findAttribute(manifest, 'package');
+  if (typeof packageName !== 'string' || packageName === '' || isResourceReference(packageName)) {
+    throw new Error('Manifest has no package name');
+  }
+
+  const usesSdk = manifest.children.find(e => e.name === 'uses-sdk');
+  const application = manifest.children.find(e => e.name === 'application');
+  const versionName = findAttribute(manifest, 'versionName', ATTR_VERSION_NAME);
+  const split = findAttribute(manifest, 'split');
+  const minSdkVersion = usesSdk ? toInteger(findAttribute(usesSdk, 'minSdkVersion', ATTR_MIN_SDK_VERSION)) : null;
+  const declaredTargetSdk = usesSdk
+    ? toInteger(findAttribute(usesSdk, 'targetSdkVersion', ATTR_TARGET_SDK_VERSION))
+    : null;
+  // Android falls back to minSdkVersion when targetSdkVersion is not declared
+  const targetSdkVersion = declaredTargetSdk ?? minSdkVersion;
+  const cleartextTraffic = application
+    ? findAttribute(application, 'usesCleartextTraffic', ATTR_USES_CLEARTEXT_TRAFFIC)
+    : undefined;
+
+  return {
+    packageName,
+    split: typeof split === 'string' && split !== '' ? split : null,
+    versionCode: toInteger(findAttribute(manifest, 'versionCode', ATTR_VERSION_CODE)),
+    versionName: typeof versionName === 'string' && !isResourceReference(versionName) ? versionName : null,
+    minSdkVersion,
+    targetSdkVersion,
+    debuggable: application ? findAttribute(application, 'debuggable', ATTR_DEBUGGABLE) === true : false,
+    testOnly: application ? findAttribute(application, 'testOnly', ATTR_TEST_ONLY) === true : false,
+    usesCleartextTraffic: typeof cleartextTraffic === 'boolean'
+      ? cleartextTraffic
+      : (targetSdkVersion ?? 1) < CLEARTEXT_DISABLED_SINCE_SDK,
+  };
+}
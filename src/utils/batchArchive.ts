@@ -0,0 +1,118 @@
+import AdmZip from 'adm-zip';
+import fs from 'fs-extra';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ARTIFACT_FORMATS, detectArtifactType } from './artifact.utils.js';
+
+/**
+ * ZIP archives of the batch endpoint: APKs to sign in, signed files out
+ */
+
+export interface BatchArchiveLimits {
+  /** Maximum number of APK/AAB entries */
+  maxEntries: number;
+  /** Maximum uncompressed size of one entry, same as upload size limit */
+  maxEntrySize: number;
+}
+
+export interface ExtractedArtifact {
+  /** Entry path inside the archive */
+  name: string;
+  /** File name of the entry, used as original name of the upload */
+  originalname: string;
+  path: string;
+  size: number;
+}
+
+// APKs are already compressed, higher ratio means crafted entry
+const MAX_COMPRESSION_RATIO = 100;
+
+function isArtifactEntry(entry: AdmZip.IZipEntry): boolean {
+  const name = entry.entryName.toLowerCase();
+  return !entry.isDirectory
+    && !name.startsWith('__macosx/')
+    && (name.endsWith('.apk') || name.endsWith('.aab'));
+}
+
+/**
+ * Extracts APK and AAB entries of uploaded archive into directory
+ * Other entries (directories, checksums, macOS metadata) are skipped
+ *
+ * @param zipPath - Uploaded archive
+ * @param destDir - Directory for extracted files, named "<uuid>.<ext>" like regular uploads
+ * @returns Extracted files in archive order
+ * @throws Error on malformed archive, too many or too large entries
+ */
+export async function extractArtifacts(
+  zipPath: string,
+  destDir: string,
+  limits: BatchArchiveLimits
+): Promise<ExtractedArtifact[]> {
+  let entries: AdmZip.IZipEntry[];
+  try {
+    entries = new AdmZip(zipPath).getEntries().filter(isArtifactEntry);
+  } catch (error) {
+    throw new Error(`Failed to parse ZIP: ${(error as Error).message}`);
+  }
+
+  if (entries.length > limits.maxEntries) {
+    throw new Error(`Archive contains ${entries.length} APK/AAB files (max: ${limits.maxEntries})`);
+  }
+
+  for (const entry of entries) {
+    const { size, compressedSize } = entry.header;
+    if (size > limits.maxEntrySize) {
+      throw new Error(`${entry.entryName} is too large: ${Math.round(size / 1024 / 1024)}MB`);
+    }
+    if (compressedSize > 0 && size / compressedSize > MAX_COMPRESSION_RATIO) {
+      throw new Error(`Potential Zip Bomb detected: compression ratio of ${entry.entryName} too high`);
+    }
+  }
+
+  const extracted: ExtractedArtifact[] = [];
+  try {
+    for (const entry of entries) {
+      const data = entry.getData();
+      // Header sizes are not trusted, decompressed data is checked again
+      if (data.length > limits.maxEntrySize) {
+        throw new Error(`${entry.entryName} is too large: ${Math.round(data.length / 1024 / 1024)}MB`);
+      }
+
+      const originalname = path.posix.basename(entry.entryName);
+      const { extension } = ARTIFACT_FORMATS[detectArtifactType(originalname)];
+      const filePath = path.join(destDir, `${uuidv4()}.${extension}`);
+
+      await fs.writeFile(filePath, data);
+      extracted.push({ name: entry.entryName, originalname, path: filePath, size: data.length });
+    }
+  } catch (error) {
+    await Promise.all(extracted.map(file => fs.remove(file.path)));
+    throw error;
+  }
+
+  return extracted;
+}
+
+/**
+ * Builds archive of signed files
+ * Entries are stored without compression: APK data is already compressed,
+ * duplicate names get a numeric suffix
+ */
+export function createArchive(files: Array<{ filename: string; data: Buffer }>): Buffer {
+  const zip = new AdmZip();
+  const used = new Set<string>();
+
+  for (const { filename, data } of files) {
+    const { name, ext } = path.parse(filename);
+    let entryName = filename;
+    for (let i = 2; used.has(entryName); i++) {
+      entryName = `${name}-${i}${ext}`;
+    }
+    used.add(entryName);
+
+    zip.addFile(entryName, data);
+    zip.getEntry(entryName)!.header.method = 0;
+  }
+
+  return zip.toBuffer();
+}
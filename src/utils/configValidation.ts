@@ -1,4 +1,18 @@
 import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type {
+  ApiTokenConfig,
+  KeyRotationConfig,
+  KeystoreConfig,
+  ManifestRuleAction,
+  ManifestRules,
+  SignerCapabilities,
+  SigningEngine,
+  StorageConfig,
+  StorageDriverName,
+  TokenOperation
+} from '../types/index.js';
 
 /**
  * Validates the presence of a required environment variable
@@ -111,20 +125,352 @@ export function generateSecureToken(length: number = 32): string {
  * const keystoreConfig = validateKeystoreEnv(process.env);
  * ```
  */
-export function validateKeystoreEnv(env: NodeJS.ProcessEnv) {
+export function validateKeystoreEnv(env: NodeJS.ProcessEnv): KeystoreConfig {
   return {
+    id: env.KEY_ID?.trim() || 'default',
     path: validateRequiredEnvVar('KEYSTORE_PATH', env.KEYSTORE_PATH),
     password: validateRequiredEnvVar('KEYSTORE_PASSWORD', env.KEYSTORE_PASSWORD),
     keyAlias: validateRequiredEnvVar('KEY_ALIAS', env.KEY_ALIAS),
     keyPassword: validateRequiredEnvVar('KEY_PASSWORD', env.KEY_PASSWORD),
+    allowedPackages: env.ALLOWED_PACKAGES?.trim()
+      ? parseAllowedPackages(env.ALLOWED_PACKAGES.split(','), 'ALLOWED_PACKAGES')
+      : null,
+    manifestRules: parseManifestRules(
+      env.MANIFEST_RULES?.trim() ? parseJsonSetting(env.MANIFEST_RULES, 'MANIFEST_RULES') : undefined,
+      'MANIFEST_RULES'
+    ),
+    rotation: env.KEY_ROTATION?.trim()
+      ? parseKeyRotation(parseJsonSetting(env.KEY_ROTATION, 'KEY_ROTATION'), 'KEY_ROTATION')
+      : null,
   };
 }
 
+const KEY_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+// Java package name segments, "*" matches any sequence of characters
+const PACKAGE_PATTERN = /^[A-Za-z0-9_*]+(\.[A-Za-z0-9_*]+)*$/;
+
+/**
+ * Validates package name allowlist of a keystore
+ * 
+ * @param patterns - Package names, e.g. ["com.example.app", "com.example.*"]
+ * @param source - Setting name used in error messages
+ * @returns Trimmed patterns
+ * @throws Error if list is not an array of package name patterns or is empty
+ * 
+ * @example
+ * ```typescript
+ * const allowedPackages = parseAllowedPackages(['com.example.*'], 'ALLOWED_PACKAGES');
+ * ```
+ */
+export function parseAllowedPackages(patterns: unknown, source: string): string[] {
+  if (!Array.isArray(patterns)) {
+    throw new Error(`❌ ${source} must be an array of package names`);
+  }
+
+  const result = patterns.map(p => (typeof p === 'string' ? p.trim() : ''));
+  const invalid = result.find(p => !PACKAGE_PATTERN.test(p));
+
+  if (result.length === 0 || invalid !== undefined) {
+    throw new Error(`❌ ${source} contains invalid package name pattern "${invalid ?? ''}"`);
+  }
+
+  return result;
+}
+
+/**
+ * Reads secret from descriptor: either inline value or name of environment variable
+ */
+function readDescriptorSecret(
+  descriptor: Record<string, any>,
+  field: string,
+  env: NodeJS.ProcessEnv,
+  source: string
+): string {
+  const envName = descriptor[`${field}Env`];
+  if (typeof envName === 'string') {
+    return validateRequiredEnvVar(envName, env[envName]);
+  }
+  if (typeof descriptor[field] === 'string' && descriptor[field] !== '') {
+    return descriptor[field];
+  }
+  throw new Error(`❌ Keystore descriptor in ${source} must define "${field}" or "${field}Env"`);
+}
+
+/**
+ * Validates single keystore descriptor
+ * Relative keystore paths are resolved against the descriptor location
+ */
+function parseKeystoreDescriptor(
+  descriptor: Record<string, any>,
+  env: NodeJS.ProcessEnv,
+  source: string,
+  fallbackId?: string
+): KeystoreConfig {
+  const id = descriptor.id ?? fallbackId;
+  if (typeof id !== 'string' || !KEY_ID_PATTERN.test(id)) {
+    throw new Error(`❌ Invalid keystore id in ${source}: only letters, digits, ".", "_" and "-" are allowed`);
+  }
+  if (typeof descriptor.path !== 'string' || descriptor.path === '') {
+    throw new Error(`❌ Keystore "${id}" in ${source} must define "path"`);
+  }
+  if (typeof descriptor.keyAlias !== 'string' || descriptor.keyAlias === '') {
+    throw new Error(`❌ Keystore "${id}" in ${source} must define "keyAlias"`);
+  }
+
+  return {
+    id,
+    path: path.resolve(path.dirname(source), descriptor.path),
+    password: readDescriptorSecret(descriptor, 'password', env, source),
+    keyAlias: descriptor.keyAlias,
+    keyPassword: readDescriptorSecret(descriptor, 'keyPassword', env, source),
+    allowedPackages: descriptor.allowedPackages === undefined
+      ? null
+      : parseAllowedPackages(descriptor.allowedPackages, `"allowedPackages" of keystore "${id}" in ${source}`),
+    manifestRules: parseManifestRules(descriptor.manifestRules, `"manifestRules" of keystore "${id}" in ${source}`),
+    rotation: descriptor.rotation === undefined
+      ? null
+      : parseKeyRotation(descriptor.rotation, `"rotation" of keystore "${id}" in ${source}`),
+  };
+}
+
+// Capabilities granted to previous signers when not listed, same defaults as apksigner
+export const DEFAULT_SIGNER_CAPABILITIES: SignerCapabilities = {
+  installedData: true,
+  sharedUid: true,
+  permission: true,
+  rollback: false,
+  auth: true,
+};
+
+/**
+ * Validates capabilities of a previous signer, missing ones take apksigner defaults
+ * 
+ * @param capabilities - `{ "installedData", "sharedUid", "permission", "rollback", "auth": boolean }`
+ * @param source - Setting name used in error messages
+ * @throws Error on unknown capability or non-boolean value
+ */
+export function parseSignerCapabilities(capabilities: unknown, source: string): SignerCapabilities {
+  if (capabilities === undefined) {
+    return { ...DEFAULT_SIGNER_CAPABILITIES };
+  }
+  if (typeof capabilities !== 'object' || capabilities === null || Array.isArray(capabilities)) {
+    throw new Error(`❌ ${source} must be an object`);
+  }
+
+  const result = { ...DEFAULT_SIGNER_CAPABILITIES };
+  for (const [name, value] of Object.entries(capabilities)) {
+    if (!(name in DEFAULT_SIGNER_CAPABILITIES)) {
+      throw new Error(`❌ ${source}: unknown capability "${name}"`);
+    }
+    if (typeof value !== 'boolean') {
+      throw new Error(`❌ ${source}: "${name}" must be true or false`);
+    }
+    result[name as keyof SignerCapabilities] = value;
+  }
+
+  return result;
+}
+
+// Key rotation is supported by APK Signature Scheme v3, Android 9 (API 28)
+const MIN_ROTATION_SDK = 28;
+
+/**
+ * Validates key rotation of a keystore
+ * Referenced key IDs are checked against the registry by loadKeystoreRegistry
+ * 
+ * @param rotation - `{ "lineage": [{ "keyId", "capabilities"? }, ...], "minSdkVersion"? }`, previous keys oldest first
+ * @param source - Setting name used in error messages
+ * @throws Error if lineage is empty, has invalid key IDs or minSdkVersion is below 28
+ * 
+ * @example
+ * ```typescript
+ * const rotation = parseKeyRotation({ lineage: [{ keyId: 'release-2019' }], minSdkVersion: 33 }, 'KEY_ROTATION');
+ * ```
+ */
+export function parseKeyRotation(rotation: unknown, source: string): KeyRotationConfig {
+  if (typeof rotation !== 'object' || rotation === null || Array.isArray(rotation)) {
+    throw new Error(`❌ ${source} must be an object`);
+  }
+
+  const { lineage, minSdkVersion = MIN_ROTATION_SDK } = rotation as Record<string, any>;
+
+  if (!Array.isArray(lineage) || lineage.length === 0) {
+    throw new Error(`❌ ${source}: "lineage" must be a non-empty array of previous keys, oldest first`);
+  }
+  if (!Number.isInteger(minSdkVersion) || minSdkVersion < MIN_ROTATION_SDK) {
+    throw new Error(`❌ ${source}: "minSdkVersion" must be an API level of at least ${MIN_ROTATION_SDK}`);
+  }
+
+  return {
+    lineage: lineage.map((node, index) => {
+      if (typeof node?.keyId !== 'string' || !KEY_ID_PATTERN.test(node.keyId)) {
+        throw new Error(`❌ ${source}: lineage[${index}] must define "keyId"`);
+      }
+      return {
+        keyId: node.keyId,
+        capabilities: parseSignerCapabilities(node.capabilities, `${source}: lineage[${index}].capabilities`),
+      };
+    }),
+    minSdkVersion,
+  };
+}
+
+const MANIFEST_RULE_ACTIONS: ManifestRuleAction[] = ['off', 'warn', 'reject'];
+
+function parseRuleAction(value: unknown, source: string, rule: string): ManifestRuleAction {
+  if (value === undefined) {
+    return 'off';
+  }
+  if (!MANIFEST_RULE_ACTIONS.includes(value as ManifestRuleAction)) {
+    throw new Error(`❌ ${source}: "${rule}" must be one of: ${MANIFEST_RULE_ACTIONS.join(', ')}`);
+  }
+  return value as ManifestRuleAction;
+}
+
+/**
+ * Validates manifest rules of a keystore, rules that are not listed are off
+ * 
+ * @param rules - `{ "debuggable", "testOnly", "cleartextTraffic": action, "minTargetSdk": { "version", "action" } }`
+ *   where action is "off", "warn" or "reject"
+ * @param source - Setting name used in error messages
+ * @throws Error on unknown rule or invalid action
+ * 
+ * @example
+ * ```typescript
+ * const rules = parseManifestRules({ debuggable: 'reject', minTargetSdk: { version: 34, action: 'warn' } }, 'MANIFEST_RULES');
+ * ```
+ */
+export function parseManifestRules(rules: unknown, source: string): ManifestRules {
+  if (rules === undefined) {
+    rules = {};
+  }
+  if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) {
+    throw new Error(`❌ ${source} must be an object`);
+  }
+
+  const { debuggable, testOnly, cleartextTraffic, minTargetSdk, ...unknown } = rules as Record<string, any>;
+  const [unknownRule] = Object.keys(unknown);
+  if (unknownRule) {
+    throw new Error(`❌ ${source}: unknown rule "${unknownRule}"`);
+  }
+
+  if (
+    minTargetSdk !== undefined &&
+    (typeof minTargetSdk !== 'object' || !Number.isInteger(minTargetSdk?.version) || minTargetSdk.version < 1)
+  ) {
+    throw new Error(`❌ ${source}: "minTargetSdk" must be { "version": <API level>, "action": "warn" | "reject" }`);
+  }
+
+  return {
+    debuggable: parseRuleAction(debuggable, source, 'debuggable'),
+    testOnly: parseRuleAction(testOnly, source, 'testOnly'),
+    cleartextTraffic: parseRuleAction(cleartextTraffic, source, 'cleartextTraffic'),
+    minTargetSdk: minTargetSdk === undefined
+      ? null
+      : { version: minTargetSdk.version, action: parseRuleAction(minTargetSdk.action ?? 'reject', source, 'minTargetSdk.action') },
+  };
+}
+
+function parseJsonSetting(value: string, name: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`❌ ${name} must be valid JSON`);
+  }
+}
+
+function readJsonFile(filePath: string): any {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`❌ Failed to read ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Loads keystore registry from all configured sources:
+ * - KEYSTORES_CONFIG: JSON file `{ "default": "id", "keystores": [descriptor, ...] }`
+ * - KEYSTORES_DIR: directory of `*.json` descriptors (id defaults to file name)
+ * - KEYSTORE_PATH / KEYSTORE_PASSWORD / KEY_ALIAS / KEY_PASSWORD (id from KEY_ID, "default" if unset)
+ * 
+ * Descriptor: `{ "id", "path", "keyAlias", "password" | "passwordEnv", "keyPassword" | "keyPasswordEnv", "allowedPackages"?, "manifestRules"?, "rotation"? }`
+ * 
+ * @param env - Object with environment variables (usually process.env)
+ * @returns Registry entries and default key ID (DEFAULT_KEY_ID, config "default" or first entry)
+ * @throws Error if no keystore is configured, IDs collide or a descriptor is invalid
+ * 
+ * @example
+ * ```typescript
+ * const { entries, defaultId } = loadKeystoreRegistry(process.env);
+ * ```
+ */
+export function loadKeystoreRegistry(env: NodeJS.ProcessEnv): { entries: KeystoreConfig[]; defaultId: string } {
+  const entries: KeystoreConfig[] = [];
+  let configuredDefault: string | undefined;
+
+  if (env.KEYSTORES_CONFIG) {
+    const source = path.resolve(env.KEYSTORES_CONFIG);
+    const registry = readJsonFile(source);
+    const descriptors = Array.isArray(registry) ? registry : registry.keystores;
+
+    if (!Array.isArray(descriptors)) {
+      throw new Error(`❌ ${source} must contain "keystores" array`);
+    }
+
+    entries.push(...descriptors.map(d => parseKeystoreDescriptor(d, env, source)));
+    configuredDefault = Array.isArray(registry) ? undefined : registry.default;
+  }
+
+  if (env.KEYSTORES_DIR) {
+    const dir = path.resolve(env.KEYSTORES_DIR);
+    const files = fs.readdirSync(dir).filter(f => f.endsWith('.json')).sort();
+
+    for (const file of files) {
+      const source = path.join(dir, file);
+      entries.push(parseKeystoreDescriptor(readJsonFile(source), env, source, path.basename(file, '.json')));
+    }
+  }
+
+  // Single keystore from env stays supported and is required when nothing else is configured
+  if (env.KEYSTORE_PATH || entries.length === 0) {
+    entries.push(validateKeystoreEnv(env));
+  }
+
+  const ids = new Set<string>();
+  for (const entry of entries) {
+    if (ids.has(entry.id)) {
+      throw new Error(`❌ Duplicate keystore id "${entry.id}"`);
+    }
+    ids.add(entry.id);
+  }
+
+  for (const entry of entries) {
+    const lineageIds = entry.rotation?.lineage.map(node => node.keyId) ?? [];
+    const invalid = lineageIds.find(id => !ids.has(id) || id === entry.id);
+
+    if (invalid !== undefined) {
+      throw new Error(`❌ Lineage of keystore "${entry.id}" refers to ${invalid === entry.id ? 'the keystore itself' : `unknown key "${invalid}"`}`);
+    }
+    if (new Set(lineageIds).size !== lineageIds.length) {
+      throw new Error(`❌ Lineage of keystore "${entry.id}" lists a key more than once`);
+    }
+  }
+
+  const defaultId = env.DEFAULT_KEY_ID?.trim() || configuredDefault || entries[0]!.id;
+  if (!ids.has(defaultId)) {
+    throw new Error(`❌ Default key "${defaultId}" is not defined in keystore registry`);
+  }
+
+  return { entries, defaultId };
+}
+
 /**
  * Validates and returns authentication token with complexity check
+ * Token is optional when scoped tokens are configured via TOKENS_FILE
  * 
  * @param env - Object with environment variables (usually process.env)
- * @returns Validated token
+ * @returns Validated token or null if only scoped tokens are used
  * @throws Error if token is not set or does not meet requirements
  * 
  * @example
@@ -132,12 +478,192 @@ export function validateKeystoreEnv(env: NodeJS.ProcessEnv) {
  * const authToken = validateAuthToken(process.env);
  * ```
  */
-export function validateAuthToken(env: NodeJS.ProcessEnv): string {
+export function validateAuthToken(env: NodeJS.ProcessEnv): string | null {
+  if (!env.STATIC_AUTH_TOKEN?.trim() && env.TOKENS_FILE) {
+    return null;
+  }
+
   const token = validateRequiredEnvVar('STATIC_AUTH_TOKEN', env.STATIC_AUTH_TOKEN);
   validateTokenStrength(token, 'STATIC_AUTH_TOKEN');
   return token;
 }
 
+/**
+ * Validates secret used to sign pre-signed download URLs
+ * 
+ * @param env - Object with environment variables (usually process.env)
+ * @returns Secret or null if pre-signed URLs are disabled
+ * @throws Error if secret does not meet token requirements
+ * 
+ * @example
+ * ```typescript
+ * const downloadSecret = validateDownloadUrlSecret(process.env);
+ * ```
+ */
+export function validateDownloadUrlSecret(env: NodeJS.ProcessEnv): string | null {
+  const secret = env.DOWNLOAD_URL_SECRET?.trim();
+  if (!secret) {
+    return null;
+  }
+
+  validateTokenStrength(secret, 'DOWNLOAD_URL_SECRET');
+  return secret;
+}
+
+const TOKEN_OPERATIONS: readonly TokenOperation[] = ['sign', 'download', 'verify', 'admin'];
+
+/**
+ * Hashes API token for storage and lookup
+ * 
+ * @example
+ * ```typescript
+ * const tokenHash = hashApiToken(generateSecureToken(48));
+ * ```
+ */
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Loads scoped API tokens
+ * - TOKENS_FILE: JSON `{ "tokens": [{ "name", "tokenHash", "operations", "keys" }] }`
+ *   where tokenHash is hex SHA-256 of the token (optionally prefixed with "sha256:")
+ * - STATIC_AUTH_TOKEN (if set) becomes token "static" with every operation and key
+ * 
+ * @param env - Object with environment variables (usually process.env)
+ * @param staticToken - Validated static token or null
+ * @throws Error on malformed file, unknown operation or duplicate name
+ */
+export function loadApiTokens(env: NodeJS.ProcessEnv, staticToken: string | null): ApiTokenConfig[] {
+  const tokens: ApiTokenConfig[] = [];
+
+  if (staticToken) {
+    tokens.push({
+      name: 'static',
+      tokenHash: hashApiToken(staticToken),
+      operations: [...TOKEN_OPERATIONS],
+      keys: ['*'],
+    });
+  }
+
+  if (env.TOKENS_FILE) {
+    const source = path.resolve(env.TOKENS_FILE);
+    const file = readJsonFile(source);
+    const entries = Array.isArray(file) ? file : file.tokens;
+
+    if (!Array.isArray(entries)) {
+      throw new Error(`❌ ${source} must contain "tokens" array`);
+    }
+
+    for (const entry of entries) {
+      if (typeof entry.name !== 'string' || entry.name === '') {
+        throw new Error(`❌ Token in ${source} must have "name"`);
+      }
+
+      const tokenHash = String(entry.tokenHash ?? '').replace(/^sha256:/, '').toLowerCase();
+      if (!/^[0-9a-f]{64}$/.test(tokenHash)) {
+        throw new Error(`❌ Token "${entry.name}" must have "tokenHash" (hex SHA-256 of the token)`);
+      }
+
+      const operations = Array.isArray(entry.operations) ? entry.operations : [];
+      const unknown = operations.filter((op: string) => !TOKEN_OPERATIONS.includes(op as TokenOperation));
+      if (operations.length === 0 || unknown.length > 0) {
+        throw new Error(
+          `❌ Token "${entry.name}" must list operations from: ${TOKEN_OPERATIONS.join(', ')}` +
+          (unknown.length > 0 ? ` (unknown: ${unknown.join(', ')})` : '')
+        );
+      }
+
+      const keys = Array.isArray(entry.keys) ? entry.keys.map(String) : [];
+
+      tokens.push({ name: entry.name, tokenHash, operations, keys });
+    }
+  }
+
+  const names = new Set<string>();
+  for (const token of tokens) {
+    if (names.has(token.name)) {
+      throw new Error(`❌ Duplicate token name "${token.name}"`);
+    }
+    names.add(token.name);
+  }
+
+  if (tokens.length === 0) {
+    throw new Error('❌ No API tokens configured: set STATIC_AUTH_TOKEN or TOKENS_FILE');
+  }
+
+  return tokens;
+}
+
+const STORAGE_DRIVERS: readonly StorageDriverName[] = ['local', 's3'];
+
+/**
+ * Loads storage backend configuration for signed artifacts
+ * - STORAGE_DRIVER=local (default): files stay in UPLOAD_DIR/signed
+ * - STORAGE_DRIVER=s3: S3_BUCKET is required; S3_ENDPOINT, S3_REGION, S3_PREFIX,
+ *   S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY and S3_FORCE_PATH_STYLE are optional
+ *
+ * @param env - Object with environment variables (usually process.env)
+ * @throws Error on unknown driver or missing bucket
+ *
+ * @example
+ * ```typescript
+ * const storage = loadStorageConfig(process.env);
+ * ```
+ */
+export function loadStorageConfig(env: NodeJS.ProcessEnv): StorageConfig {
+  const driver = (env.STORAGE_DRIVER?.trim().toLowerCase() || 'local') as StorageDriverName;
+
+  if (!STORAGE_DRIVERS.includes(driver)) {
+    throw new Error(`❌ STORAGE_DRIVER must be one of: ${STORAGE_DRIVERS.join(', ')}`);
+  }
+
+  if (driver === 'local') {
+    return { driver, s3: null };
+  }
+
+  const prefix = env.S3_PREFIX?.trim() ?? '';
+
+  return {
+    driver,
+    s3: {
+      endpoint: env.S3_ENDPOINT?.trim() || undefined,
+      region: env.S3_REGION?.trim() || 'us-east-1',
+      bucket: validateRequiredEnvVar('S3_BUCKET', env.S3_BUCKET),
+      prefix: prefix && !prefix.endsWith('/') ? `${prefix}/` : prefix,
+      accessKeyId: env.S3_ACCESS_KEY_ID?.trim() || undefined,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY?.trim() || undefined,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE === 'true',
+    },
+  };
+}
+
+const SIGNING_ENGINES: readonly SigningEngine[] = ['native', 'jarsigner'];
+
+/**
+ * Loads v1 (JAR) signing engine
+ * - SIGNING_ENGINE=jarsigner (default): JDK jarsigner, old signature is removed with zip
+ * - SIGNING_ENGINE=native: built-in, needs no JDK (JKS/JCEKS keystores still need keytool),
+ *   output is compared with jarsigner by jarSignature.test.ts
+ *
+ * @param env - Object with environment variables (usually process.env)
+ * @throws Error on unknown engine
+ *
+ * @example
+ * ```typescript
+ * const engine = loadSigningEngine(process.env);
+ * ```
+ */
+export function loadSigningEngine(env: NodeJS.ProcessEnv): SigningEngine {
+  const engine = (env.SIGNING_ENGINE?.trim().toLowerCase() || 'jarsigner') as SigningEngine;
+
+  if (!SIGNING_ENGINES.includes(engine)) {
+    throw new Error(`❌ SIGNING_ENGINE must be one of: ${SIGNING_ENGINES.join(', ')}`);
+  }
+
+  return engine;
+}
+
 /**
  * Warns about weak security settings in production
  * 
@@ -0,0 +1,61 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { parseDownloadRange } from './downloadRange.js';
+
+const SIZE = 1000;
+const ETAG = '"abc"';
+const LAST_MODIFIED = 'Mon, 19 Oct 2026 12:00:00 GMT';
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.get('/', (req, res) => {
+    res.json({ range: parseDownloadRange(req, SIZE, ETAG, LAST_MODIFIED) });
+  });
+
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+async function parse(headers: Record<string, string>) {
+  const response = await fetch(baseUrl, { headers });
+  return (await response.json() as { range: unknown }).range;
+}
+
+describe('parseDownloadRange', () => {
+  test('no Range header means whole file', async () => {
+    expect(await parse({})).toBeNull();
+  });
+
+  test('single ranges are resolved against file size', async () => {
+    expect(await parse({ Range: 'bytes=0-0' })).toEqual({ start: 0, end: 0 });
+    expect(await parse({ Range: 'bytes=100-' })).toEqual({ start: 100, end: SIZE - 1 });
+    expect(await parse({ Range: 'bytes=-100' })).toEqual({ start: SIZE - 100, end: SIZE - 1 });
+    expect(await parse({ Range: 'bytes=900-5000' })).toEqual({ start: 900, end: SIZE - 1 });
+  });
+
+  test('range outside the file is unsatisfiable', async () => {
+    expect(await parse({ Range: 'bytes=1000-' })).toBe('unsatisfiable');
+  });
+
+  test('malformed and multiple ranges fall back to whole file', async () => {
+    expect(await parse({ Range: 'bytes' })).toBeNull();
+    expect(await parse({ Range: 'items=0-10' })).toBeNull();
+    expect(await parse({ Range: 'bytes=0-10, 500-600' })).toBeNull();
+  });
+
+  test('If-Range must match ETag or Last-Modified', async () => {
+    expect(await parse({ Range: 'bytes=100-', 'If-Range': ETAG })).toEqual({ start: 100, end: SIZE - 1 });
+    expect(await parse({ Range: 'bytes=100-', 'If-Range': LAST_MODIFIED })).toEqual({ start: 100, end: SIZE - 1 });
+    expect(await parse({ Range: 'bytes=100-', 'If-Range': '"stale"' })).toBeNull();
+  });
+});
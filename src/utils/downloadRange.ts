@@ -0,0 +1,32 @@
+import type express from 'express';
+import type { ByteRange } from '../types/index.js';
+
+/**
+ * Reads single byte range from Range header
+ * Multiple ranges, malformed headers and stale If-Range fall back to the whole file
+ * 
+ * @returns Range, null for whole file or 'unsatisfiable' (416)
+ */
+export function parseDownloadRange(
+  req: express.Request,
+  size: number,
+  etag: string,
+  lastModified: string
+): ByteRange | null | 'unsatisfiable' {
+  const ifRange = req.header('If-Range');
+  if (!req.headers.range || (ifRange && ifRange !== etag && ifRange !== lastModified)) {
+    return null;
+  }
+
+  const ranges = req.range(size, { combine: true });
+  if (ranges === -1) {
+    return 'unsatisfiable';
+  }
+
+  if (ranges === -2 || !ranges || ranges.type !== 'bytes' || ranges.length !== 1) {
+    return null;
+  }
+
+  const [range] = ranges;
+  return range ? { start: range.start, end: range.end } : null;
+}
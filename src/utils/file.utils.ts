@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import fs from 'fs-extra';
 import path from 'path';
 
@@ -46,3 +47,16 @@ export async function ensureDirectories(...directories: string[]): Promise<void>
   await Promise.all(directories.map(dir => fs.ensureDir(dir)));
 }
 
+
+/**
+ * Calculate SHA-256 of file contents (hex)
+ */
+export async function sha256File(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+
+  return hash.digest('hex');
+}
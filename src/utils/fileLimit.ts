@@ -1,5 +1,6 @@
 import fs from 'fs-extra';
 import path from 'path';
+import type { StorageDriver } from '../types/index.js';
 import { logger } from './logger.js';
 
 interface FileInfo {
@@ -8,7 +9,42 @@ interface FileInfo {
   mtime: number;
 }
 
+// Local files (resolved paths) of requests in progress, with number of holders
+// Incoming directory belongs to one replica, so the registry does too; storage holds live in artifact records
+const heldFiles = new Map<string, number>();
 
+/**
+ * Keeps local files out of file limit pruning until the returned function is called:
+ * uploads waiting in the signing queue, working copies, temporary copies of split APKs
+ * Held files still count towards the limit, older files are removed instead
+ * 
+ * @returns Function releasing the files, safe to call more than once
+ */
+export function holdFiles(...filePaths: string[]): () => void {
+  const names = filePaths.map(filePath => path.resolve(filePath));
+  for (const name of names) {
+    heldFiles.set(name, (heldFiles.get(name) ?? 0) + 1);
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+
+    for (const name of names) {
+      const holders = (heldFiles.get(name) ?? 1) - 1;
+      if (holders > 0) {
+        heldFiles.set(name, holders);
+      } else {
+        heldFiles.delete(name);
+      }
+    }
+  };
+}
+
+/**
+ * Removes oldest files of directory above maxFiles, files held by requests in progress are skipped
+ */
 export async function enforceFileLimit(directory: string, maxFiles: number): Promise<void> {
   try {
     // Read all files in directory
@@ -35,11 +71,15 @@ export async function enforceFileLimit(directory: string, maxFiles: number): Pro
     fileInfos.sort((a, b) => a.mtime - b.mtime);
 
     // Calculate how many files to delete
-    const filesToDelete = fileInfos.length - maxFiles;
+    const deletable = fileInfos.filter(file => !heldFiles.has(path.resolve(file.path)));
+    const filesToDelete = Math.min(fileInfos.length - maxFiles, deletable.length);
+    if (filesToDelete <= 0) {
+      return; // Only held files above limit
+    }
 
     // Delete oldest files
     for (let i = 0; i < filesToDelete; i++) {
-      const file = fileInfos[i];
+      const file = deletable[i];
       if (!file) return;
       await fs.remove(file.path);
       logger.info('File deleted due to limit', {
@@ -53,10 +93,62 @@ export async function enforceFileLimit(directory: string, maxFiles: number): Pro
     logger.info('File limit enforced', {
       directory,
       deletedCount: filesToDelete,
-      remainingCount: maxFiles,
+      remainingCount: fileInfos.length - filesToDelete,
     });
   } catch (error) {
     logger.error('Failed to enforce file limit', error, { directory });
     // Don't throw - this is not critical, upload should continue
   }
 }
+
+/**
+ * Same limit for artifact storage: removes oldest signed artifacts above maxFiles
+ * Metadata objects (*.json) are not counted, their records are pruned by cleanup
+ * 
+ * @param isHeld - Whether the object is held by a request in progress on any replica, held objects are skipped;
+ *   asked only for the oldest objects until enough are removed
+ */
+export async function enforceStorageLimit(
+  storage: StorageDriver,
+  maxFiles: number,
+  isHeld: (key: string) => Promise<boolean>
+): Promise<void> {
+  try {
+    const objects = (await storage.list())
+      .filter(object => !object.key.endsWith('.json'))
+      .sort((a, b) => a.lastModified.getTime() - b.lastModified.getTime());
+
+    const filesToDelete = objects.length - maxFiles;
+    if (filesToDelete <= 0) {
+      return;
+    }
+
+    let deletedCount = 0;
+    for (const object of objects) {
+      if (deletedCount === filesToDelete) break;
+      if (await isHeld(object.key)) continue;
+
+      await storage.delete(object.key);
+      deletedCount++;
+      logger.info('File deleted due to limit', {
+        file: object.key,
+        storage: storage.name,
+        reason: 'max_files_limit',
+        maxFiles,
+      });
+    }
+
+    if (deletedCount === 0) {
+      return; // Only held files above limit
+    }
+
+    logger.info('File limit enforced', {
+      storage: storage.name,
+      deletedCount,
+      remainingCount: objects.length - deletedCount,
+    });
+  } catch (error) {
+    logger.error('Failed to enforce storage file limit', error, { storage: storage.name });
+    // Don't throw - this is not critical, upload should continue
+  }
+}
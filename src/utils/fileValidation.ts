@@ -1,17 +1,255 @@
 import AdmZip from 'adm-zip';
 import { fileTypeFromFile } from 'file-type';
 import fs from 'fs-extra';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  ApkManifestInfo,
+  ArtifactType,
+  ManifestRuleAction,
+  ManifestRuleName,
+  ManifestRules,
+  ManifestRuleViolation,
+  ZipAlignmentReport
+} from '../types/index.js';
+import { isSplitApkSet } from './artifact.utils.js';
+import { decodeApkManifest } from './axml.js';
+import { holdFiles } from './fileLimit.js';
 import { logger } from './logger.js';
+import { checkZipAlignment } from './zipAlign.js';
+
+interface ArchiveRules {
+  /** Format name used in error messages */
+  label: string;
+  /** Entries that must be present in the archive */
+  requiredEntries: string[];
+}
+
+const APK_RULES: ArchiveRules = {
+  label: 'APK',
+  requiredEntries: ['AndroidManifest.xml'],
+};
+
+const AAB_RULES: ArchiveRules = {
+  label: 'AAB',
+  requiredEntries: ['BundleConfig.pb', 'base/manifest/AndroidManifest.xml'],
+};
+
+// bundletool build-apks output: table of contents and APKs under splits/, standalones/ etc.
+const APKS_RULES: ArchiveRules = {
+  label: 'APKS',
+  requiredEntries: ['toc.pb'],
+};
+
+// XAPK: manifest.json describing the set, APKs at the root, optionally OBB files
+const XAPK_RULES: ArchiveRules = {
+  label: 'XAPK',
+  requiredEntries: ['manifest.json'],
+};
 
 /**
  * Validates APK file
- * Checks magic bytes, ZIP structure, presence of AndroidManifest.xml
+ * Checks magic bytes, ZIP structure, presence of AndroidManifest.xml and decodes it
  * Protection against Zip Bomb attacks
  * 
  * @param filePath - Path to file for validation
+ * @returns Values from AndroidManifest.xml
+ * @throws Error on invalid file, malformed manifest or Zip Bomb detection
+ */
+export async function validateApkFile(filePath: string): Promise<ApkManifestInfo> {
+  const zip = await validateAndroidArchive(filePath, APK_RULES);
+  return readApkManifest(zip);
+}
+
+/**
+ * Validates Android App Bundle file
+ * Same checks as for APK, but requires bundle layout:
+ * BundleConfig.pb and base/manifest/AndroidManifest.xml
+ * 
+ * @param filePath - Path to file for validation
  * @throws Error on invalid file or Zip Bomb detection
  */
-export async function validateApkFile(filePath: string): Promise<void> {
+export async function validateAabFile(filePath: string): Promise<void> {
+  await validateAndroidArchive(filePath, AAB_RULES);
+}
+
+/**
+ * Whether entry of split APK set is an APK (base, config split, standalone or universal APK)
+ */
+export function isSplitApkEntry(name: string): boolean {
+  return !name.endsWith('/') && name.toLowerCase().endsWith('.apk');
+}
+
+/**
+ * APK entries of split APK set
+ */
+export function splitApkEntries(zip: AdmZip): AdmZip.IZipEntry[] {
+  return zip.getEntries().filter(entry => isSplitApkEntry(entry.entryName));
+}
+
+/**
+ * Validates split APK set (.apks from bundletool or .xapk)
+ * Every inner APK passes validateApkFile and must belong to the same package and version
+ * 
+ * @param filePath - Path to file for validation
+ * @param type - apks or xapk
+ * @returns Values from AndroidManifest.xml of the first base (non-split) APK
+ * @throws Error on invalid container, invalid inner APK or mixed packages
+ */
+export async function validateSplitApkSet(filePath: string, type: 'apks' | 'xapk'): Promise<ApkManifestInfo> {
+  const rules = type === 'apks' ? APKS_RULES : XAPK_RULES;
+  const zip = await validateAndroidArchive(filePath, rules);
+  const entries = splitApkEntries(zip);
+
+  if (entries.length === 0) {
+    throw new Error(`Invalid ${rules.label}: no APK files inside`);
+  }
+
+  const manifests: ApkManifestInfo[] = [];
+
+  for (const entry of entries) {
+    // validateApkFile works on files, inner APK is checked from a temporary copy
+    const apkPath = path.join(path.dirname(filePath), `${uuidv4()}.apk`);
+    const releaseApk = holdFiles(apkPath);
+    try {
+      await fs.writeFile(apkPath, entry.getData());
+      manifests.push(await validateApkFile(apkPath));
+    } catch (error: any) {
+      throw new Error(`Invalid ${rules.label}: ${entry.entryName}: ${error.message}`);
+    } finally {
+      await fs.remove(apkPath);
+      releaseApk();
+    }
+  }
+
+  const [first] = manifests;
+  const mismatch = manifests.findIndex(m => m.packageName !== first!.packageName || m.versionCode !== first!.versionCode);
+  if (mismatch !== -1) {
+    throw new Error(
+      `Invalid ${rules.label}: ${entries[mismatch]!.entryName} belongs to ` +
+      `${manifests[mismatch]!.packageName} (${manifests[mismatch]!.versionCode}), ` +
+      `expected ${first!.packageName} (${first!.versionCode})`
+    );
+  }
+
+  const base = manifests.find(m => m.split === null);
+  if (!base) {
+    throw new Error(`Invalid ${rules.label}: missing base APK`);
+  }
+
+  logger.info(`${rules.label} validation passed`, {
+    packageName: base.packageName,
+    apks: entries.map(entry => entry.entryName),
+  });
+
+  return base;
+}
+
+/**
+ * Validates uploaded artifact according to its type
+ * 
+ * @param filePath - Path to file for validation
+ * @param type - Artifact type (apk, aab, apks or xapk)
+ * @returns Values from AndroidManifest.xml (of the base APK for split APK sets),
+ *   null for AAB (bundle manifest is protobuf, not binary XML)
+ * @throws Error on invalid file, malformed manifest or Zip Bomb detection
+ */
+export async function validateArtifactFile(filePath: string, type: ArtifactType): Promise<ApkManifestInfo | null> {
+  if (type === 'aab') {
+    await validateAabFile(filePath);
+    return null;
+  }
+
+  if (isSplitApkSet(type)) {
+    return validateSplitApkSet(filePath, type);
+  }
+
+  return validateApkFile(filePath);
+}
+
+/**
+ * Checks decoded manifest against signing rules of the key
+ * 
+ * @param manifest - Values from AndroidManifest.xml
+ * @param rules - Manifest rules of the signing key
+ * @returns Violated rules, with "reject" action the APK must not be signed
+ * 
+ * @example
+ * ```typescript
+ * const violations = checkManifestRules(manifest, keystore.manifestRules);
+ * if (violations.some(v => v.action === 'reject')) { ... }
+ * ```
+ */
+export function checkManifestRules(manifest: ApkManifestInfo, rules: ManifestRules): ManifestRuleViolation[] {
+  const violations: ManifestRuleViolation[] = [];
+
+  const check = (rule: ManifestRuleName, action: ManifestRuleAction, violated: boolean, message: string) => {
+    if (action !== 'off' && violated) {
+      violations.push({ rule, action, message });
+    }
+  };
+
+  check('debuggable', rules.debuggable, manifest.debuggable, 'android:debuggable is true');
+  check('testOnly', rules.testOnly, manifest.testOnly, 'android:testOnly is true');
+  check('cleartextTraffic', rules.cleartextTraffic, manifest.usesCleartextTraffic, 'Cleartext (HTTP) traffic is permitted');
+
+  if (rules.minTargetSdk) {
+    const { version, action } = rules.minTargetSdk;
+    check(
+      'minTargetSdk',
+      action,
+      (manifest.targetSdkVersion ?? 0) < version,
+      `targetSdkVersion is ${manifest.targetSdkVersion ?? 'not declared'}, minimum is ${version}`
+    );
+  }
+
+  return violations;
+}
+
+/**
+ * Checks that uncompressed entries of APK are aligned
+ * 4 bytes for regular entries and 16KB for native libraries, as `zipalign -c -P 16 4`
+ * 
+ * @param filePath - Path to APK (must already pass validateApkFile)
+ * @returns Alignment report with misaligned entries
+ * @throws Error if ZIP structure cannot be read
+ * 
+ * @example
+ * ```typescript
+ * const alignment = await validateZipAlignment(apkPath);
+ * if (!alignment.aligned) { ... }
+ * ```
+ */
+export async function validateZipAlignment(filePath: string): Promise<ZipAlignmentReport> {
+  const report = await checkZipAlignment(filePath);
+
+  if (!report.aligned) {
+    logger.debug('APK is not aligned', { filePath, misaligned: report.misaligned.length });
+  }
+
+  return report;
+}
+
+/**
+ * Decodes binary AndroidManifest.xml of validated APK
+ * 
+ * @throws Error if manifest is not valid binary XML
+ */
+function readApkManifest(zip: AdmZip): ApkManifestInfo {
+  try {
+    const manifest = decodeApkManifest(zip.readFile('AndroidManifest.xml') ?? Buffer.alloc(0));
+
+    logger.debug('APK manifest decoded', { ...manifest });
+
+    return manifest;
+  } catch (error: any) {
+    throw new Error(`Invalid APK: malformed AndroidManifest.xml (${error.message})`);
+  }
+}
+
+async function validateAndroidArchive(filePath: string, rules: ArchiveRules): Promise<AdmZip> {
+  const { label } = rules;
+
   // 1. Check file existence
   const exists = await fs.pathExists(filePath);
   if (!exists) {
@@ -31,7 +269,7 @@ export async function validateApkFile(filePath: string): Promise<void> {
   }
 
   // 3. Check magic bytes (ZIP signature)
-  // APK files are ZIP archives, must start with PK (0x50 0x4B)
+  // APK and AAB files are ZIP archives, must start with PK (0x50 0x4B)
   
   // First try with file-type library
   const fileType = await fileTypeFromFile(filePath);
@@ -76,7 +314,7 @@ export async function validateApkFile(filePath: string): Promise<void> {
   });
   
   if (!isZip && (!fileType || fileType.mime !== 'application/zip')) {
-    throw new Error('Invalid APK file: not a ZIP archive');
+    throw new Error(`Invalid ${label} file: not a ZIP archive`);
   }
 
   // 4. Check ZIP structure and Zip Bomb protection
@@ -85,16 +323,16 @@ export async function validateApkFile(filePath: string): Promise<void> {
     const entries = zip.getEntries();
     
     if (entries.length === 0) {
-      throw new Error('APK is empty (no files inside)');
+      throw new Error(`${label} is empty (no files inside)`);
     }
     
-    // Check for AndroidManifest.xml (required file for APK)
-    const hasManifest = entries.some(entry => 
-      entry.entryName === 'AndroidManifest.xml'
-    );
-    
-    if (!hasManifest) {
-      throw new Error('Invalid APK: missing AndroidManifest.xml');
+    // Check for required files (AndroidManifest.xml for APK, bundle layout for AAB)
+    for (const required of rules.requiredEntries) {
+      const hasEntry = entries.some(entry => entry.entryName === required);
+      
+      if (!hasEntry) {
+        throw new Error(`Invalid ${label}: missing ${required}`);
+      }
     }
     
     // Zip Bomb protection: check compression
@@ -123,22 +361,23 @@ export async function validateApkFile(filePath: string): Promise<void> {
       }
     }
     
-    logger.info('APK validation passed', {
+    logger.info(`${label} validation passed`, {
       compressedSize: `${Math.round(stats.size / 1024 / 1024)}MB`,
       uncompressedSize: `${Math.round(totalUncompressedSize / 1024 / 1024)}MB`,
       ratio: (totalUncompressedSize / stats.size).toFixed(2),
       files: entries.length,
     });
-    
+
+    return zip;
   } catch (error: any) {
     // If this is already our error (Zip Bomb, Invalid APK), rethrow it
     if (error.message.includes('Zip Bomb') || 
-        error.message.includes('Invalid APK') || 
-        error.message.includes('APK is empty')) {
+        error.message.includes(`Invalid ${label}`) || 
+        error.message.includes(`${label} is empty`)) {
       throw error;
     }
     // Otherwise - parsing error
-    throw new Error(`Failed to parse APK: ${error.message}`);
+    throw new Error(`Failed to parse ${label}: ${error.message}`);
   }
 }
 
@@ -0,0 +1,285 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import AdmZip from 'adm-zip';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import forge from 'node-forge';
+import os from 'os';
+import path from 'path';
+import type { KeystoreConfig } from '../types/index.js';
+import { buildApk, createSigningKey } from '../test/apk.js';
+import {
+  createPkcs7Signature,
+  parseManifest,
+  signJar,
+  verifyJarSignature,
+  verifyPkcs7Signature,
+  type JarSigningOptions,
+} from './jarSignature.js';
+import { loadSigningKey, type SigningKey } from './keystore.js';
+import { execCommand, findExecutable } from './process.utils.js';
+
+/**
+ * Native v1 engine against jarsigner: the same archive is signed by both and
+ * MANIFEST.MF, .SF and the signature block are compared
+ *
+ * Differences on purpose, everything else must match byte for byte:
+ * - Created-By (MANIFEST.MF and .SF): jarsigner writes "<java.version> (<java.vendor>)" of the JDK it runs on,
+ *   native engine writes its own constant
+ * - SHA-256-Digest-Manifest and SHA-256-Digest-Manifest-Main-Attributes (.SF): follow from Created-By,
+ *   checked against each engine's own manifest instead
+ * - X-Android-APK-Signed (.SF): only native engine writes it when v2/v3 follow, not requested here
+ * - Signature block: JDK 16+ signs signed attributes (content type, signing time, message digest,
+ *   CMSAlgorithmProtection) and writes sha256WithRSAEncryption, native engine signs the .SF directly with
+ *   rsaEncryption like JDK 11 (installed by the Dockerfile) and apksigner. With JDK 11 the blocks must be
+ *   identical, with newer JDKs certificates and digest algorithm are compared
+ *
+ * Skipped when jarsigner and keytool are not in PATH
+ */
+
+const ALIAS = 'release';
+const PASSWORD = 'secret123';
+
+const jarsigner = await findExecutable('jarsigner');
+const keytool = await findExecutable('keytool');
+
+const ENTRIES: Array<[string, Buffer]> = [
+  ['AndroidManifest.xml', crypto.randomBytes(2048)],
+  ['classes.dex', crypto.randomBytes(64 * 1024)],
+  ['res/layout/main.xml', Buffer.from('<LinearLayout/>')],
+  // Name longer than a 72 byte manifest line, checks continuation lines
+  ['res/drawable-xxxhdpi-v4/a_resource_name_long_enough_to_wrap_the_manifest_line_twice_over.png', crypto.randomBytes(512)],
+  ['assets/empty.txt', Buffer.alloc(0)],
+  ['resources.arsc', crypto.randomBytes(4096)],
+];
+
+interface SignedFiles {
+  manifest: Buffer;
+  signatureFile: Buffer;
+  signatureBlock: Buffer;
+}
+
+function readSignature(archive: Buffer): SignedFiles {
+  const zip = new AdmZip(archive);
+  const read = (name: string) => {
+    const entry = zip.getEntry(name);
+    if (!entry) throw new Error(`${name} is missing`);
+    return entry.getData();
+  };
+
+  const base = `META-INF/${ALIAS.toUpperCase()}`;
+  return {
+    manifest: read('META-INF/MANIFEST.MF'),
+    signatureFile: read(`${base}.SF`),
+    signatureBlock: read(`${base}.RSA`),
+  };
+}
+
+/**
+ * Signs archive contents through a temporary file
+ */
+async function signArchive(archive: Buffer, key: SigningKey, options: JarSigningOptions): Promise<Buffer> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jar-sign-'));
+  try {
+    const archivePath = path.join(dir, 'app.apk');
+    await fs.writeFile(archivePath, archive);
+    await signJar(archivePath, key, options);
+    return await fs.readFile(archivePath);
+  } finally {
+    await fs.remove(dir);
+  }
+}
+
+function withoutCreatedBy(data: Buffer): string {
+  return data.toString('latin1').replace(/^Created-By: .*\r\n/m, '');
+}
+
+function sha256Base64(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('base64');
+}
+
+function children(asn1: forge.asn1.Asn1 | undefined): forge.asn1.Asn1[] {
+  return Array.isArray(asn1?.value) ? asn1.value : [];
+}
+
+function toHex(asn1: forge.asn1.Asn1 | undefined): string {
+  return asn1 ? forge.util.bytesToHex(forge.asn1.toDer(asn1).getBytes()) : '';
+}
+
+/**
+ * Fields of PKCS#7 SignedData that do not depend on .SF contents or signing time
+ */
+function describeBlock(block: Buffer) {
+  const { Class } = forge.asn1;
+  const signedData = children(children(forge.asn1.fromDer(block.toString('binary'), false))[1])[0];
+  const fields = children(signedData);
+  const signerInfo = children(fields[fields.length - 1])[0];
+  const [, issuerAndSerial, digestAlgorithm, ...rest] = children(signerInfo);
+
+  return {
+    digestAlgorithms: toHex(fields[1]),
+    contentType: toHex(fields[2]),
+    certificates: fields.filter(f => f.tagClass === Class.CONTEXT_SPECIFIC && f.type === 0).map(toHex),
+    issuerAndSerial: toHex(issuerAndSerial),
+    digestAlgorithm: toHex(digestAlgorithm),
+    hasSignedAttributes: rest.some(f => f.tagClass === Class.CONTEXT_SPECIFIC && f.type === 0),
+  };
+}
+
+describe.skipIf(!jarsigner || !keytool)('native v1 engine matches jarsigner', () => {
+  let workDir: string;
+  let key: SigningKey;
+  let native: SignedFiles;
+  let reference: SignedFiles;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jarsigner-compat-'));
+    const keystorePath = path.join(workDir, 'release.p12');
+
+    await execCommand(keytool!, [
+      '-genkeypair', '-keystore', keystorePath, '-storetype', 'PKCS12',
+      '-storepass', PASSWORD, '-keypass', PASSWORD, '-alias', ALIAS,
+      '-keyalg', 'RSA', '-keysize', '2048', '-validity', '365', '-dname', 'CN=Compatibility Test',
+    ]);
+
+    const keystore: KeystoreConfig = {
+      id: 'default',
+      path: keystorePath,
+      password: PASSWORD,
+      keyAlias: ALIAS,
+      keyPassword: PASSWORD,
+      allowedPackages: null,
+      manifestRules: { debuggable: 'off', testOnly: 'off', cleartextTraffic: 'off', minTargetSdk: null },
+      rotation: null,
+    };
+    key = await loadSigningKey(keystore);
+
+    const zip = new AdmZip();
+    for (const [name, data] of ENTRIES) {
+      zip.addFile(name, data);
+    }
+    const archive = zip.toBuffer();
+
+    native = readSignature(await signArchive(archive, key, { signerName: ALIAS }));
+
+    // Same arguments as SigningService.runJarsigner
+    const apkPath = path.join(workDir, 'app.apk');
+    await fs.writeFile(apkPath, archive);
+    await execCommand(jarsigner!, [
+      '-sigalg', 'SHA256withRSA',
+      '-digestalg', 'SHA-256',
+      '-keystore', keystorePath,
+      '-storepass', PASSWORD,
+      '-keypass', PASSWORD,
+      apkPath,
+      ALIAS,
+    ]);
+    reference = readSignature(await fs.readFile(apkPath));
+  });
+
+  afterAll(async () => {
+    await fs.remove(workDir);
+  });
+
+  test('MANIFEST.MF differs only in Created-By', () => {
+    expect(withoutCreatedBy(native.manifest)).toBe(withoutCreatedBy(reference.manifest));
+  });
+
+  test('.SF entry sections are identical', () => {
+    const nativeSections = parseManifest(native.signatureFile).slice(1);
+    const referenceSections = parseManifest(reference.signatureFile).slice(1);
+
+    expect(nativeSections.map(s => s.raw.toString('latin1')))
+      .toEqual(referenceSections.map(s => s.raw.toString('latin1')));
+  });
+
+  test('.SF main section differs only in Created-By and manifest digests', () => {
+    const mainAttributes = (files: SignedFiles) => {
+      const attributes = new Map(parseManifest(files.signatureFile)[0]!.attributes);
+      const mainSection = parseManifest(files.manifest)[0]!;
+
+      expect(attributes.get('SHA-256-Digest-Manifest')).toBe(sha256Base64(files.manifest));
+      expect(attributes.get('SHA-256-Digest-Manifest-Main-Attributes')).toBe(sha256Base64(mainSection.raw));
+
+      for (const name of ['Created-By', 'SHA-256-Digest-Manifest', 'SHA-256-Digest-Manifest-Main-Attributes']) {
+        attributes.delete(name);
+      }
+      return Object.fromEntries(attributes);
+    };
+
+    expect(mainAttributes(native)).toEqual(mainAttributes(reference));
+  });
+
+  test('signature block has the same structure and signer', () => {
+    const nativeSigner = verifyPkcs7Signature(native.signatureBlock, native.signatureFile);
+    const referenceSigner = verifyPkcs7Signature(reference.signatureBlock, reference.signatureFile);
+    expect(nativeSigner.fingerprint256).toBe(referenceSigner.fingerprint256);
+
+    const { hasSignedAttributes, ...referenceFields } = describeBlock(reference.signatureBlock);
+    const { hasSignedAttributes: _, ...nativeFields } = describeBlock(native.signatureBlock);
+    expect(nativeFields).toEqual(referenceFields);
+
+    if (!hasSignedAttributes) {
+      // RSA PKCS#1 v1.5 is deterministic, the same .SF must give the same block
+      expect(createPkcs7Signature(reference.signatureFile, key).equals(reference.signatureBlock)).toBe(true);
+    }
+  });
+
+  test('jarsigner verifies native signature', async () => {
+    const apkPath = path.join(workDir, 'native.apk');
+    const zip = new AdmZip();
+    for (const [name, data] of ENTRIES) {
+      zip.addFile(name, data);
+    }
+    await fs.writeFile(apkPath, zip.toBuffer());
+    await signJar(apkPath, key, { signerName: ALIAS });
+
+    const { stdout } = await execCommand(jarsigner!, ['-verify', apkPath]);
+    expect(stdout).toContain('jar verified');
+  });
+});
+
+describe('native v1 engine', () => {
+  const key = createSigningKey('Native Test');
+
+  test('signed archive verifies with every entry covered', async () => {
+    const signed = await signArchive(buildApk(), key, { signerName: ALIAS });
+    const result = verifyJarSignature(new AdmZip(signed));
+
+    expect(result?.errors).toEqual([]);
+    expect(result?.verified).toBe(true);
+    expect(result?.entries).toEqual({ total: 6, matched: 6, mismatched: [], unsigned: [] });
+    expect(result?.signers.map(c => c.fingerprint256)).toEqual([key.certificate.fingerprint256]);
+  });
+
+  test('X-Android-APK-Signed lists requested block schemes', async () => {
+    const signed = await signArchive(buildApk(), key, { signerName: ALIAS, apkSignatureSchemes: [2, 3] });
+    const sf = new AdmZip(signed).getEntry(`META-INF/${ALIAS.toUpperCase()}.SF`)!.getData();
+
+    expect(new Map(parseManifest(sf)[0]!.attributes).get('X-Android-APK-Signed')).toBe('2, 3');
+  });
+
+  test('changed and added entries are detected', async () => {
+    const zip = new AdmZip(await signArchive(buildApk(), key, { signerName: ALIAS }));
+    zip.updateFile('classes.dex', crypto.randomBytes(1024));
+    zip.addFile('assets/extra.txt', Buffer.from('extra'));
+
+    const result = verifyJarSignature(zip);
+    expect(result?.verified).toBe(false);
+    expect(result?.entries.mismatched).toEqual(['classes.dex']);
+    expect(result?.entries.unsigned).toEqual(['assets/extra.txt']);
+  });
+
+  test('signing again replaces the previous signature', async () => {
+    const previous = createSigningKey('Previous Key');
+    const signed = await signArchive(buildApk(), previous, { signerName: 'previous' });
+    const zip = new AdmZip(await signArchive(signed, key, { signerName: ALIAS }));
+
+    expect(zip.getEntries().filter(e => e.entryName.startsWith('META-INF/')).map(e => e.entryName).sort())
+      .toEqual(['META-INF/MANIFEST.MF', `META-INF/${ALIAS.toUpperCase()}.RSA`, `META-INF/${ALIAS.toUpperCase()}.SF`]);
+    expect(verifyJarSignature(zip)?.verified).toBe(true);
+  });
+
+  test('unsigned archive has no v1 signature', () => {
+    expect(verifyJarSignature(new AdmZip(buildApk()))).toBeNull();
+  });
+});
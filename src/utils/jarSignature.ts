@@ -0,0 +1,523 @@
+import AdmZip from 'adm-zip';
+import crypto from 'crypto';
+import forge from 'node-forge';
+import type { SigningKey } from './keystore.js';
+import { openZipFile, readEntryData, rewriteZip, type CentralDirectoryEntry, type ZipFile } from './zip.utils.js';
+
+/**
+ * JAR signature (APK Signature Scheme v1) signing and verification
+ * https://docs.oracle.com/javase/8/docs/technotes/guides/jar/jar.html#Signed_JAR_File
+ */
+
+export interface ManifestSection {
+  name?: string;
+  attributes: Map<string, string>;
+  /** Section bytes including the terminating empty line */
+  raw: Buffer;
+}
+
+export interface JarEntryDigests {
+  total: number;
+  matched: number;
+  mismatched: string[];
+  unsigned: string[];
+}
+
+export interface JarVerification {
+  verified: boolean;
+  signers: crypto.X509Certificate[];
+  errors: string[];
+  entries: JarEntryDigests;
+}
+
+const MANIFEST_NAME = 'META-INF/MANIFEST.MF';
+
+// JAR digest attribute prefixes mapped to Node hash names
+const JAR_DIGESTS: Record<string, string> = {
+  'SHA-512': 'sha512',
+  'SHA-384': 'sha384',
+  'SHA-256': 'sha256',
+  'SHA1': 'sha1',
+  'SHA-1': 'sha1',
+};
+
+// PKCS#7 digest algorithm OIDs mapped to Node hash names
+const DIGEST_OIDS: Record<string, string> = {
+  '1.3.14.3.2.26': 'sha1',
+  '2.16.840.1.101.3.4.2.1': 'sha256',
+  '2.16.840.1.101.3.4.2.2': 'sha384',
+  '2.16.840.1.101.3.4.2.3': 'sha512',
+};
+
+const MESSAGE_DIGEST_OID = '1.2.840.113549.1.9.4';
+
+/**
+ * Splits manifest (or signature file) into sections, keeping raw bytes of each
+ * Continuation lines (starting with a space) are joined to the previous line
+ */
+export function parseManifest(data: Buffer): ManifestSection[] {
+  const text = data.toString('latin1');
+  const sections: ManifestSection[] = [];
+  const newline = /\r\n|\n|\r/g;
+  let sectionStart = 0;
+  let position = 0;
+
+  while (position < text.length) {
+    newline.lastIndex = position;
+    const match = newline.exec(text);
+    const lineEnd = match ? match.index : text.length;
+    const isEmpty = lineEnd === position;
+    position = match ? lineEnd + match[0].length : text.length;
+
+    if (isEmpty || position >= text.length) {
+      if (position > sectionStart) {
+        sections.push(parseSection(data.subarray(sectionStart, position)));
+      }
+      sectionStart = position;
+    }
+  }
+
+  return sections;
+}
+
+function parseSection(raw: Buffer): ManifestSection {
+  const attributes = new Map<string, string>();
+  const lines = raw.toString('latin1').split(/\r\n|\n|\r/);
+  let current: string | undefined;
+
+  const flush = () => {
+    if (current === undefined) return;
+    const separator = current.indexOf(': ');
+    if (separator > 0) {
+      const value = Buffer.from(current.slice(separator + 2), 'latin1').toString('utf8');
+      attributes.set(current.slice(0, separator), value);
+    }
+  };
+
+  for (const line of lines) {
+    if (line.startsWith(' ') && current !== undefined) {
+      current += line.slice(1);
+      continue;
+    }
+    flush();
+    current = line === '' ? undefined : line;
+  }
+  flush();
+
+  return { name: attributes.get('Name'), attributes, raw };
+}
+
+/**
+ * Finds first supported "<ALG><suffix>" attribute in section
+ */
+function findDigestAttribute(
+  attributes: Map<string, string>,
+  suffix: string
+): { hash: string; value: string } | null {
+  for (const [prefix, hash] of Object.entries(JAR_DIGESTS)) {
+    const value = attributes.get(`${prefix}${suffix}`);
+    if (value) {
+      return { hash, value };
+    }
+  }
+  return null;
+}
+
+function digestBase64(hash: string, data: Buffer): string {
+  return crypto.createHash(hash).update(data).digest('base64');
+}
+
+/**
+ * Checks every manifest entry digest against actual ZIP entry contents
+ */
+function verifyEntryDigests(zip: AdmZip, sections: ManifestSection[]): JarEntryDigests {
+  const result: JarEntryDigests = { total: 0, matched: 0, mismatched: [], unsigned: [] };
+  const listed = new Set<string>();
+
+  for (const section of sections.slice(1)) {
+    if (!section.name) continue;
+    listed.add(section.name);
+
+    const digest = findDigestAttribute(section.attributes, '-Digest');
+    if (!digest) continue;
+
+    result.total++;
+    const entry = zip.getEntry(section.name);
+    if (entry && digestBase64(digest.hash, entry.getData()) === digest.value) {
+      result.matched++;
+    } else {
+      result.mismatched.push(section.name);
+    }
+  }
+
+  for (const entry of zip.getEntries()) {
+    if (!entry.isDirectory && !entry.entryName.startsWith('META-INF/') && !listed.has(entry.entryName)) {
+      result.unsigned.push(entry.entryName);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Checks that signature file (.SF) covers the manifest
+ * Whole-manifest digest is tried first, then per-section digests
+ */
+function verifySignatureFile(sf: ManifestSection[], manifest: Buffer, manifestSections: ManifestSection[]): boolean {
+  const main = sf[0];
+  if (!main) return false;
+
+  const manifestDigest = findDigestAttribute(main.attributes, '-Digest-Manifest');
+  if (manifestDigest && digestBase64(manifestDigest.hash, manifest) === manifestDigest.value) {
+    return true;
+  }
+
+  const byName = new Map(manifestSections.filter(s => s.name).map(s => [s.name!, s]));
+  const entrySections = sf.slice(1).filter(s => s.name);
+
+  return entrySections.length > 0 && entrySections.every(section => {
+    const digest = findDigestAttribute(section.attributes, '-Digest');
+    const manifestSection = byName.get(section.name!);
+    return !!digest && !!manifestSection && digestBase64(digest.hash, manifestSection.raw) === digest.value;
+  });
+}
+
+function asn1ToDer(asn1: forge.asn1.Asn1): Buffer {
+  return Buffer.from(forge.asn1.toDer(asn1).getBytes(), 'binary');
+}
+
+function children(asn1: forge.asn1.Asn1 | undefined): forge.asn1.Asn1[] {
+  return Array.isArray(asn1?.value) ? asn1.value : [];
+}
+
+function normalizeSerial(hex: string): string {
+  return hex.replace(/^0+/, '').toUpperCase();
+}
+
+/**
+ * Verifies PKCS#7 SignedData block (detached) over signature file contents
+ *
+ * @returns Signer certificate
+ * @throws Error if structure is invalid or signature does not match
+ */
+export function verifyPkcs7Signature(block: Buffer, content: Buffer): crypto.X509Certificate {
+  const contentInfo = forge.asn1.fromDer(block.toString('binary'), false);
+  const signedData = children(children(contentInfo)[1])[0];
+  const fields = children(signedData);
+
+  const certificates = fields
+    .filter(f => f.tagClass === forge.asn1.Class.CONTEXT_SPECIFIC && f.type === 0)
+    .flatMap(children)
+    .map(cert => new crypto.X509Certificate(asn1ToDer(cert)));
+
+  const signerInfo = children(fields[fields.length - 1])[0];
+  if (!signerInfo) {
+    throw new Error('PKCS#7 block has no signer');
+  }
+
+  const [, issuerAndSerial, digestAlgorithm, ...rest] = children(signerInfo);
+  const serial = normalizeSerial(forge.util.bytesToHex(children(issuerAndSerial)[1]?.value as string ?? ''));
+  const certificate = certificates.find(c => normalizeSerial(c.serialNumber) === serial);
+  if (!certificate) {
+    throw new Error('Signer certificate not found in PKCS#7 block');
+  }
+
+  const digestOid = forge.asn1.derToOid(children(digestAlgorithm)[0]?.value as string ?? '');
+  const hash = DIGEST_OIDS[digestOid];
+  if (!hash) {
+    throw new Error(`Unsupported digest algorithm: ${digestOid}`);
+  }
+
+  const authenticatedAttributes = rest.find(f => f.tagClass === forge.asn1.Class.CONTEXT_SPECIFIC && f.type === 0);
+  const encryptedDigest = rest.find(f => f.tagClass === forge.asn1.Class.UNIVERSAL && f.type === forge.asn1.Type.OCTETSTRING);
+  if (!encryptedDigest) {
+    throw new Error('PKCS#7 signer has no signature');
+  }
+
+  let signedBytes = content;
+  if (authenticatedAttributes) {
+    const messageDigest = children(authenticatedAttributes)
+      .find(attr => forge.asn1.derToOid(children(attr)[0]?.value as string ?? '') === MESSAGE_DIGEST_OID);
+    const expected = children(children(messageDigest)[1])[0]?.value as string | undefined;
+
+    if (!expected || Buffer.from(expected, 'binary').compare(crypto.createHash(hash).update(content).digest()) !== 0) {
+      throw new Error('PKCS#7 message digest does not match signature file');
+    }
+
+    // Signature covers attributes re-encoded as SET OF
+    signedBytes = asn1ToDer(forge.asn1.create(
+      forge.asn1.Class.UNIVERSAL,
+      forge.asn1.Type.SET,
+      true,
+      children(authenticatedAttributes)
+    ));
+  }
+
+  const signature = Buffer.from(encryptedDigest.value as string, 'binary');
+  if (!crypto.verify(hash, signedBytes, certificate.publicKey, signature)) {
+    throw new Error('PKCS#7 signature verification failed');
+  }
+
+  return certificate;
+}
+
+/**
+ * Verifies JAR (v1) signature of APK
+ *
+ * @param zip - Opened archive
+ * @returns Verification result or null if archive has no v1 signature
+ */
+export function verifyJarSignature(zip: AdmZip): JarVerification | null {
+  const signatureFiles = zip.getEntries()
+    .filter(e => /^META-INF\/[^/]+\.SF$/i.test(e.entryName));
+
+  if (signatureFiles.length === 0) {
+    return null;
+  }
+
+  const errors: string[] = [];
+  const signers: crypto.X509Certificate[] = [];
+  const manifestEntry = zip.getEntry(MANIFEST_NAME);
+
+  if (!manifestEntry) {
+    return {
+      verified: false,
+      signers,
+      errors: ['META-INF/MANIFEST.MF is missing'],
+      entries: { total: 0, matched: 0, mismatched: [], unsigned: [] },
+    };
+  }
+
+  const manifest = manifestEntry.getData();
+  const manifestSections = parseManifest(manifest);
+  const entries = verifyEntryDigests(zip, manifestSections);
+
+  if (entries.mismatched.length > 0) {
+    errors.push(`Digest mismatch for ${entries.mismatched.length} entr${entries.mismatched.length === 1 ? 'y' : 'ies'}`);
+  }
+  if (entries.unsigned.length > 0) {
+    errors.push(`${entries.unsigned.length} entr${entries.unsigned.length === 1 ? 'y is' : 'ies are'} not covered by manifest`);
+  }
+
+  for (const sfEntry of signatureFiles) {
+    const baseName = sfEntry.entryName.slice(0, -3);
+    const blockEntry = ['RSA', 'EC', 'DSA']
+      .map(ext => zip.getEntry(`${baseName}.${ext}`))
+      .find(Boolean);
+
+    if (!blockEntry) {
+      errors.push(`Signature block for ${sfEntry.entryName} is missing`);
+      continue;
+    }
+
+    const sfData = sfEntry.getData();
+
+    try {
+      signers.push(verifyPkcs7Signature(blockEntry.getData(), sfData));
+    } catch (error) {
+      errors.push(`${blockEntry.entryName}: ${(error as Error).message}`);
+      continue;
+    }
+
+    if (!verifySignatureFile(parseManifest(sfData), manifest, manifestSections)) {
+      errors.push(`${sfEntry.entryName} does not match MANIFEST.MF`);
+    }
+  }
+
+  return { verified: errors.length === 0, signers, errors, entries };
+}
+
+// jarsigner writes the version and vendor of its JDK here, the only manifest difference on purpose
+const CREATED_BY = '1.0 (APK Signing Service)';
+
+// Manifest lines are limited to 72 bytes, longer values continue on lines starting with a space
+const MAX_LINE_LENGTH = 72;
+
+const CONTENT_TYPE_DATA_OID = '1.2.840.113549.1.7.1';
+const SIGNED_DATA_OID = '1.2.840.113549.1.7.2';
+const SHA256_OID = '2.16.840.1.101.3.4.2.1';
+
+// Signature algorithm OIDs and signature block extensions per key type, same as jarsigner
+const BLOCK_ALGORITHMS: Record<string, { oid: string; extension: string; nullParameters: boolean }> = {
+  rsa: { oid: '1.2.840.113549.1.1.1', extension: 'RSA', nullParameters: true },
+  ec: { oid: '1.2.840.10045.4.3.2', extension: 'EC', nullParameters: false },
+  dsa: { oid: '2.16.840.1.101.3.4.3.2', extension: 'DSA', nullParameters: false },
+};
+
+export interface JarSigningOptions {
+  /** Base name of signature files, derived like jarsigner does from the key alias */
+  signerName: string;
+  /**
+   * APK Signature Scheme versions applied after v1 (2, 3), written as X-Android-APK-Signed
+   * so Android rejects the APK when v2+ signatures were stripped
+   */
+  apkSignatureSchemes?: number[];
+}
+
+/**
+ * Whether entry belongs to a JAR signature (manifest, signature file or block)
+ */
+export function isJarSignatureEntry(name: string): boolean {
+  return /^META-INF\/(MANIFEST\.MF|[^/]+\.(SF|RSA|DSA|EC)|SIG-[^/]+)$/i.test(name);
+}
+
+/**
+ * Signature file base name for alias: first 8 characters, upper case, others replaced with "_"
+ */
+export function signatureFileName(alias: string): string {
+  return alias.slice(0, 8).toUpperCase().replace(/[^A-Z0-9_-]/g, '_');
+}
+
+function writeAttribute(name: string, value: string): Buffer {
+  const line = Buffer.from(`${name}: ${value}`, 'utf8');
+  const parts = [line.subarray(0, MAX_LINE_LENGTH)];
+
+  for (let offset = MAX_LINE_LENGTH; offset < line.length; offset += MAX_LINE_LENGTH - 1) {
+    parts.push(Buffer.from('\r\n '), line.subarray(offset, offset + MAX_LINE_LENGTH - 1));
+  }
+  parts.push(Buffer.from('\r\n'));
+
+  return Buffer.concat(parts);
+}
+
+function writeSection(attributes: Array<[string, string]>): Buffer {
+  return Buffer.concat([...attributes.map(([name, value]) => writeAttribute(name, value)), Buffer.from('\r\n')]);
+}
+
+function sha256Base64(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('base64');
+}
+
+function oid(value: string, withNullParameters: boolean): forge.asn1.Asn1 {
+  const { Class, Type } = forge.asn1;
+  return forge.asn1.create(Class.UNIVERSAL, Type.SEQUENCE, true, [
+    forge.asn1.create(Class.UNIVERSAL, Type.OID, false, forge.asn1.oidToDer(value).getBytes()),
+    ...(withNullParameters ? [forge.asn1.create(Class.UNIVERSAL, Type.NULL, false, '')] : []),
+  ]);
+}
+
+/**
+ * Builds detached PKCS#7 SignedData over signature file, without signed attributes
+ */
+export function createPkcs7Signature(content: Buffer, key: SigningKey): Buffer {
+  const { Class, Type } = forge.asn1;
+  const keyType = key.privateKey.asymmetricKeyType ?? '';
+  const algorithm = BLOCK_ALGORITHMS[keyType];
+  if (!algorithm) {
+    throw new Error(`Unsupported signing key type: ${keyType}`);
+  }
+
+  const signature = crypto.sign('sha256', content, {
+    key: key.privateKey,
+    ...(keyType !== 'rsa' && { dsaEncoding: 'der' as const }),
+  });
+
+  // TBSCertificate: [0] version, serialNumber, signature, issuer, ...
+  const certificate = forge.asn1.fromDer(key.certificate.raw.toString('binary'), false);
+  const tbsFields = children(children(certificate)[0]);
+  const serialIndex = tbsFields[0]?.tagClass === Class.CONTEXT_SPECIFIC ? 1 : 0;
+  const serialNumber = tbsFields[serialIndex];
+  const issuer = tbsFields[serialIndex + 2];
+  if (!serialNumber || !issuer) {
+    throw new Error('Malformed signer certificate');
+  }
+
+  const signerInfo = forge.asn1.create(Class.UNIVERSAL, Type.SEQUENCE, true, [
+    forge.asn1.create(Class.UNIVERSAL, Type.INTEGER, false, forge.asn1.integerToDer(1).getBytes()),
+    forge.asn1.create(Class.UNIVERSAL, Type.SEQUENCE, true, [issuer, serialNumber]),
+    oid(SHA256_OID, true),
+    oid(algorithm.oid, algorithm.nullParameters),
+    forge.asn1.create(Class.UNIVERSAL, Type.OCTETSTRING, false, signature.toString('binary')),
+  ]);
+
+  const signedData = forge.asn1.create(Class.UNIVERSAL, Type.SEQUENCE, true, [
+    forge.asn1.create(Class.UNIVERSAL, Type.INTEGER, false, forge.asn1.integerToDer(1).getBytes()),
+    forge.asn1.create(Class.UNIVERSAL, Type.SET, true, [oid(SHA256_OID, true)]),
+    oid(CONTENT_TYPE_DATA_OID, false),
+    forge.asn1.create(Class.CONTEXT_SPECIFIC, 0, true, [certificate]),
+    forge.asn1.create(Class.UNIVERSAL, Type.SET, true, [signerInfo]),
+  ]);
+
+  return asn1ToDer(forge.asn1.create(Class.UNIVERSAL, Type.SEQUENCE, true, [
+    forge.asn1.create(Class.UNIVERSAL, Type.OID, false, forge.asn1.oidToDer(SIGNED_DATA_OID).getBytes()),
+    forge.asn1.create(Class.CONTEXT_SPECIFIC, 0, true, [signedData]),
+  ]));
+}
+
+/**
+ * SHA-256 of entry contents, streamed from the file
+ */
+async function entryDigestBase64(zip: ZipFile, entry: CentralDirectoryEntry): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  await readEntryData(zip, entry, async chunks => {
+    for await (const chunk of chunks) {
+      hash.update(chunk);
+    }
+  });
+  return hash.digest('base64');
+}
+
+/**
+ * Signs archive in place with JAR (v1) signature using SHA-256 digests
+ * Entries are hashed from the file one at a time, existing signature entries are replaced,
+ * other entries are copied without recompression
+ *
+ * @param archivePath - Archive to sign
+ * @param key - Signing key
+ * @param options - Signature file name and v2+ schemes applied afterwards
+ * @throws Error on malformed or ZIP64 archives
+ */
+export async function signJar(archivePath: string, key: SigningKey, options: JarSigningOptions): Promise<void> {
+  const mainSection = writeSection([
+    ['Manifest-Version', '1.0'],
+    ['Created-By', CREATED_BY],
+  ]);
+  const entrySections: Array<{ name: string; section: Buffer }> = [];
+
+  const zip = await openZipFile(archivePath);
+  try {
+    for (const entry of zip.entries) {
+      if (entry.name.endsWith('/') || isJarSignatureEntry(entry.name)) continue;
+
+      entrySections.push({
+        name: entry.name,
+        section: writeSection([
+          ['Name', entry.name],
+          ['SHA-256-Digest', await entryDigestBase64(zip, entry)],
+        ]),
+      });
+    }
+  } finally {
+    await zip.handle.close();
+  }
+
+  const manifest = Buffer.concat([mainSection, ...entrySections.map(e => e.section)]);
+
+  const sfMain: Array<[string, string]> = [
+    ['Signature-Version', '1.0'],
+    ['Created-By', CREATED_BY],
+    ['SHA-256-Digest-Manifest', sha256Base64(manifest)],
+    ['SHA-256-Digest-Manifest-Main-Attributes', sha256Base64(mainSection)],
+  ];
+  if (options.apkSignatureSchemes?.length) {
+    sfMain.push(['X-Android-APK-Signed', options.apkSignatureSchemes.join(', ')]);
+  }
+
+  const signatureFile = Buffer.concat([
+    writeSection(sfMain),
+    ...entrySections.map(e => writeSection([
+      ['Name', e.name],
+      ['SHA-256-Digest', sha256Base64(e.section)],
+    ])),
+  ]);
+
+  const signatureBlock = createPkcs7Signature(signatureFile, key);
+  const baseName = `META-INF/${signatureFileName(options.signerName)}`;
+  const { extension } = BLOCK_ALGORITHMS[key.privateKey.asymmetricKeyType!]!;
+
+  await rewriteZip(archivePath, [
+    { name: MANIFEST_NAME, data: manifest },
+    { name: `${baseName}.SF`, data: signatureFile },
+    { name: `${baseName}.${extension}`, data: signatureBlock },
+  ], entry => !isJarSignatureEntry(entry.name));
+}
@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import forge from 'node-forge';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { CertificateInfo, KeystoreConfig } from '../types/index.js';
+import { safeRemove } from './file.utils.js';
+import { execCommand } from './process.utils.js';
+
+export interface SigningKey {
+  privateKey: crypto.KeyObject;
+  certificate: crypto.X509Certificate;
+}
+
+const JKS_MAGIC = 0xfeedfeed;
+const JCEKS_MAGIC = 0xcececece;
+
+// PKCS#12 SafeBag types
+const KEY_BAG = '1.2.840.113549.1.12.10.1.1';
+const SHROUDED_KEY_BAG = '1.2.840.113549.1.12.10.1.2';
+const CERT_BAG = '1.2.840.113549.1.12.10.1.3';
+
+const keyCache = new Map<string, { mtimeMs: number; key: Promise<SigningKey> }>();
+
+/**
+ * Loads private key and signer certificate from keystore
+ * PKCS#12 keystores are parsed directly, JKS/JCEKS are converted with keytool first
+ * Result is cached per keystore path and alias until the keystore file is modified
+ *
+ * @param keystore - Keystore configuration
+ * @throws Error if keystore cannot be opened or alias is not found
+ */
+export async function loadSigningKey(keystore: KeystoreConfig): Promise<SigningKey> {
+  const cacheKey = `${path.resolve(keystore.path)}:${keystore.keyAlias}`;
+  // Missing file is reported by readSigningKey
+  const mtimeMs = (await fs.stat(keystore.path).catch(() => null))?.mtimeMs ?? 0;
+
+  let cached = keyCache.get(cacheKey);
+  if (!cached || cached.mtimeMs !== mtimeMs) {
+    const key = readSigningKey(keystore);
+    cached = { mtimeMs, key };
+    keyCache.set(cacheKey, cached);
+    key.catch(() => {
+      if (keyCache.get(cacheKey)?.key === key) keyCache.delete(cacheKey);
+    });
+  }
+
+  return cached.key;
+}
+
+async function readSigningKey(keystore: KeystoreConfig): Promise<SigningKey> {
+  if (!(await fs.pathExists(keystore.path))) {
+    throw new Error('Keystore not found');
+  }
+
+  const data = await fs.readFile(keystore.path);
+  const magic = data.length >= 4 ? data.readUInt32BE(0) : 0;
+
+  const pkcs12 = magic === JKS_MAGIC || magic === JCEKS_MAGIC
+    ? await convertToPkcs12(keystore, magic === JKS_MAGIC ? 'JKS' : 'JCEKS')
+    : data;
+
+  return parsePkcs12(pkcs12, keystore);
+}
+
+/**
+ * Exports single alias from JKS/JCEKS keystore into temporary PKCS#12 file
+ */
+async function convertToPkcs12(keystore: KeystoreConfig, storeType: string): Promise<Buffer> {
+  const tempPath = path.join(os.tmpdir(), `${uuidv4()}.p12`);
+
+  try {
+    await execCommand('keytool', [
+      '-importkeystore',
+      '-noprompt',
+      '-srckeystore', keystore.path,
+      '-srcstoretype', storeType,
+      '-srcstorepass', keystore.password,
+      '-srcalias', keystore.keyAlias,
+      '-srckeypass', keystore.keyPassword,
+      '-destkeystore', tempPath,
+      '-deststoretype', 'PKCS12',
+      '-deststorepass', keystore.password,
+      '-destkeypass', keystore.password,
+    ]);
+    return await fs.readFile(tempPath);
+  } catch (error) {
+    throw new Error(`Failed to read ${storeType} keystore: ${(error as Error).message}`);
+  } finally {
+    await safeRemove(tempPath);
+  }
+}
+
+/**
+ * Opens PKCS#12 container, trying store password first and key password second
+ */
+function openPkcs12(data: Buffer, keystore: KeystoreConfig): forge.pkcs12.Pkcs12Pfx {
+  const asn1 = forge.asn1.fromDer(data.toString('binary'), false);
+  const passwords = [...new Set([keystore.password, keystore.keyPassword])];
+
+  for (const password of passwords) {
+    try {
+      return forge.pkcs12.pkcs12FromAsn1(asn1, false, password);
+    } catch {
+      // Try next password
+    }
+  }
+
+  throw new Error('Failed to open keystore: wrong password or unsupported format');
+}
+
+function parsePkcs12(data: Buffer, keystore: KeystoreConfig): SigningKey {
+  const p12 = openPkcs12(data, keystore);
+  const bagsOfType = (bagType: string) => p12.getBags({ bagType })[bagType] ?? [];
+
+  const alias = keystore.keyAlias.toLowerCase();
+  const keyBags = [...bagsOfType(SHROUDED_KEY_BAG), ...bagsOfType(KEY_BAG)];
+  const keyBag = keyBags.find(bag => bag.attributes.friendlyName?.[0]?.toLowerCase() === alias);
+
+  if (!keyBag) {
+    throw new Error(`Key alias "${keystore.keyAlias}" not found in keystore`);
+  }
+
+  const keyId = keyBag.attributes.localKeyId?.[0];
+  const certBags = bagsOfType(CERT_BAG);
+  const certBag = certBags.find(bag => keyId && bag.attributes.localKeyId?.[0] === keyId)
+    ?? certBags.find(bag => bag.attributes.friendlyName?.[0]?.toLowerCase() === alias);
+
+  if (!certBag) {
+    throw new Error(`Certificate for alias "${keystore.keyAlias}" not found in keystore`);
+  }
+
+  const privateKey = keyBag.key
+    ? crypto.createPrivateKey(forge.pki.privateKeyToPem(keyBag.key))
+    : crypto.createPrivateKey({ key: asn1ToDer(keyBag.asn1), format: 'der', type: 'pkcs8' });
+
+  const certificate = new crypto.X509Certificate(
+    certBag.cert ? asn1ToDer(forge.pki.certificateToAsn1(certBag.cert)) : asn1ToDer(certBag.asn1)
+  );
+
+  if (!certificate.checkPrivateKey(privateKey)) {
+    throw new Error(`Certificate for alias "${keystore.keyAlias}" does not match its private key`);
+  }
+
+  return { privateKey, certificate };
+}
+
+function asn1ToDer(asn1: forge.asn1.Asn1): Buffer {
+  return Buffer.from(forge.asn1.toDer(asn1).getBytes(), 'binary');
+}
+
+/**
+ * Converts certificate into JSON-friendly summary
+ */
+export function describeCertificate(certificate: crypto.X509Certificate): CertificateInfo {
+  return {
+    subject: certificate.subject.replace(/\n/g, ', '),
+    issuer: certificate.issuer.replace(/\n/g, ', '),
+    serialNumber: certificate.serialNumber,
+    sha256Fingerprint: certificate.fingerprint256,
+    validFrom: new Date(certificate.validFrom).toISOString(),
+    validTo: new Date(certificate.validTo).toISOString(),
+  };
+}
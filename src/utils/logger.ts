@@ -33,13 +33,16 @@ function sanitizeLogData(data: any): any {
     'auth', 'bearer', 'credential', 'pwd', 'storepass'
   ];
   
+  // Identifiers that match sensitive patterns but carry no secrets
+  const publicKeys = ['keyid', 'keyalias', 'lineagekeyid', 'expiredkeyid'];
+  
   const sanitized: any = Array.isArray(data) ? [] : {};
   
   for (const [key, value] of Object.entries(data)) {
     const keyLower = key.toLowerCase();
     
     // Check for sensitive keys
-    if (sensitiveKeys.some(sk => keyLower.includes(sk))) {
+    if (!publicKeys.includes(keyLower) && sensitiveKeys.some(sk => keyLower.includes(sk))) {
       sanitized[key] = '***REDACTED***';
     } 
     // Check for paths in values
@@ -100,6 +103,18 @@ export const logger = {
     }));
   },
   
+  /**
+   * Security-relevant events (policy refusals etc.), always written regardless of environment
+   */
+  audit: (event: string, meta?: any) => {
+    console.log(JSON.stringify({
+      level: 'audit',
+      event,
+      ...sanitizeLogData(meta || {}),
+      timestamp: new Date().toISOString(),
+    }));
+  },
+  
   debug: (message: string, meta?: any) => {
     if (!isDevelopment) return;
     console.debug(JSON.stringify({
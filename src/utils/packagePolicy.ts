@@ -0,0 +1,28 @@
+/**
+ * Checks package name against allowlist pattern
+ * "*" matches any sequence of characters: "com.example.*" allows "com.example.app" and "com.example.app.beta"
+ *
+ * @param pattern - Package name pattern from keystore configuration
+ * @param packageName - Package name from AndroidManifest.xml
+ */
+export function matchesPackagePattern(pattern: string, packageName: string): boolean {
+  const regex = new RegExp(
+    '^' + pattern.split('*').map(part => part.replace(/[.]/g, '\\.')).join('.*') + '$'
+  );
+  return regex.test(packageName);
+}
+
+/**
+ * Checks whether key may sign package
+ *
+ * @param allowedPackages - Allowlist of the key, null allows any package
+ * @param packageName - Package name, null if it could not be determined (app bundles)
+ * @returns true if signing is allowed
+ */
+export function isPackageAllowed(allowedPackages: string[] | null, packageName: string | null): boolean {
+  if (allowedPackages === null) {
+    return true;
+  }
+
+  return packageName !== null && allowedPackages.some(pattern => matchesPackagePattern(pattern, packageName));
+}
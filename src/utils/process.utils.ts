@@ -1,4 +1,6 @@
 import { spawn } from 'child_process';
+import fs from 'fs-extra';
+import path from 'path';
 
 export interface ExecResult {
   stdout: string;
@@ -49,3 +51,27 @@ export function execCommand(
   });
 }
 
+
+/**
+ * Finds executable in PATH
+ * 
+ * @param command - Command name, e.g. "jarsigner"
+ * @returns Full path or null if command is not available
+ */
+export async function findExecutable(command: string): Promise<string | null> {
+  for (const dir of (process.env.PATH ?? '').split(path.delimiter)) {
+    if (!dir) continue;
+
+    const candidate = path.join(dir, command);
+    try {
+      await fs.access(candidate, fs.constants.X_OK);
+      if ((await fs.stat(candidate)).isFile()) {
+        return candidate;
+      }
+    } catch {
+      // Not in this directory
+    }
+  }
+
+  return null;
+}
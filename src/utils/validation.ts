@@ -1,4 +1,5 @@
 import path from 'path';
+import type { SignatureScheme } from '../types/index.js';
 
 /**
  * Validates file ID in UUID format
@@ -98,3 +99,57 @@ export function validateSafeString(value: string, fieldName: string): void {
     throw new Error(`${fieldName} contains invalid characters`);
   }
 }
+
+const SIGNATURE_SCHEMES: readonly SignatureScheme[] = ['v1', 'v2', 'v3'];
+
+/**
+ * Parses a comma-separated list of APK signature schemes (e.g. "v1,v2,v3")
+ * 
+ * @param value - Raw list from env or request field
+ * @param fieldName - Field name for error message
+ * @returns Unique schemes in canonical order
+ * @throws Error if the list is empty or contains an unknown scheme
+ */
+export function parseSignatureSchemes(value: string, fieldName: string = 'schemes'): SignatureScheme[] {
+  const requested = value
+    .split(',')
+    .map(s => s.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (requested.length === 0) {
+    throw new Error(`${fieldName} must contain at least one of: ${SIGNATURE_SCHEMES.join(', ')}`);
+  }
+
+  const unknown = requested.filter(s => !SIGNATURE_SCHEMES.includes(s as SignatureScheme));
+  if (unknown.length > 0) {
+    throw new Error(`${fieldName} contains unknown scheme(s): ${unknown.join(', ')}. Allowed: ${SIGNATURE_SCHEMES.join(', ')}`);
+  }
+
+  return SIGNATURE_SCHEMES.filter(s => requested.includes(s));
+}
+
+/**
+ * Parses optional positive integer query parameter (e.g. page number)
+ * 
+ * @param value - Raw query value, undefined when not provided
+ * @param defaultValue - Value used when parameter is missing
+ * @param max - Upper bound, larger values are clamped
+ * @param fieldName - Field name for error message
+ * @throws Error if value is not a positive integer
+ */
+export function parsePositiveInt(
+  value: unknown,
+  defaultValue: number,
+  max: number,
+  fieldName: string
+): number {
+  if (value === undefined || value === '') {
+    return defaultValue;
+  }
+
+  if (typeof value !== 'string' || !/^\d+$/.test(value) || Number(value) < 1) {
+    throw new Error(`${fieldName} must be a positive integer`);
+  }
+
+  return Math.min(Number(value), max);
+}
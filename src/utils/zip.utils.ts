@@ -0,0 +1,598 @@
+import fs from 'fs-extra';
+import type { FileHandle } from 'fs/promises';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import zlib from 'zlib';
+import { holdFiles } from './fileLimit.js';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+export const APK_SIGNING_BLOCK_MAGIC = Buffer.from('APK Sig Block 42', 'ascii');
+const APK_SIGNING_BLOCK_FOOTER_SIZE = 8 + APK_SIGNING_BLOCK_MAGIC.length;
+
+export interface ZipSections {
+  /** End of the ZIP entries (start of APK Signing Block if present, otherwise Central Directory) */
+  entriesEnd: number;
+  cdOffset: number;
+  cdSize: number;
+  eocdOffset: number;
+  entryCount: number;
+  /** Offset of an existing APK Signing Block, or null */
+  signingBlockOffset: number | null;
+}
+
+/**
+ * Locates ZIP End of Central Directory record
+ * Scans backwards because EOCD may be followed by an archive comment
+ *
+ * @param buffer - Whole archive contents
+ * @returns Offset of EOCD record
+ * @throws Error if EOCD is not found
+ */
+export function findEndOfCentralDirectory(buffer: Buffer): number {
+  const minOffset = Math.max(0, buffer.length - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+
+  for (let offset = buffer.length - EOCD_MIN_SIZE; offset >= minOffset; offset--) {
+    if (buffer.readUInt32LE(offset) !== EOCD_SIGNATURE) {
+      continue;
+    }
+    const commentLength = buffer.readUInt16LE(offset + 20);
+    if (offset + EOCD_MIN_SIZE + commentLength === buffer.length) {
+      return offset;
+    }
+  }
+
+  throw new Error('Invalid ZIP: End of Central Directory not found');
+}
+
+/**
+ * Splits archive into the sections used by APK Signature Scheme v2+:
+ * ZIP entries, APK Signing Block, Central Directory and EOCD
+ *
+ * @param buffer - Whole archive contents
+ * @throws Error on malformed or ZIP64 archives
+ */
+export function readZipSections(buffer: Buffer): ZipSections {
+  if (buffer.length < EOCD_MIN_SIZE) {
+    throw new Error('Invalid ZIP: file too small');
+  }
+
+  const eocdOffset = findEndOfCentralDirectory(buffer);
+  const { cdOffset, cdSize, entryCount } = readEndOfCentralDirectory(buffer.subarray(eocdOffset), eocdOffset);
+
+  const signingBlockOffset = findApkSigningBlock(buffer, cdOffset);
+
+  return {
+    entriesEnd: signingBlockOffset ?? cdOffset,
+    cdOffset,
+    cdSize,
+    eocdOffset,
+    entryCount,
+    signingBlockOffset,
+  };
+}
+
+/**
+ * Reads Central Directory location from EOCD record
+ *
+ * @throws Error on ZIP64 archives or if Central Directory does not end at EOCD
+ */
+function readEndOfCentralDirectory(eocd: Buffer, eocdOffset: number) {
+  const entryCount = eocd.readUInt16LE(10);
+  const cdSize = eocd.readUInt32LE(12);
+  const cdOffset = eocd.readUInt32LE(16);
+
+  if (cdOffset === 0xffffffff || cdSize === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  if (cdOffset + cdSize !== eocdOffset) {
+    throw new Error('Invalid ZIP: Central Directory is not followed by EOCD');
+  }
+
+  return { cdOffset, cdSize, entryCount };
+}
+
+/**
+ * Finds APK Signing Block located immediately before Central Directory
+ *
+ * @returns Block offset or null if the archive has no signing block
+ * @throws Error if block footer is present but sizes are inconsistent
+ */
+function findApkSigningBlock(buffer: Buffer, cdOffset: number): number | null {
+  if (cdOffset < APK_SIGNING_BLOCK_FOOTER_SIZE + 8) {
+    return null;
+  }
+
+  const magic = buffer.subarray(cdOffset - APK_SIGNING_BLOCK_MAGIC.length, cdOffset);
+  if (!magic.equals(APK_SIGNING_BLOCK_MAGIC)) {
+    return null;
+  }
+
+  const footerSize = Number(buffer.readBigUInt64LE(cdOffset - APK_SIGNING_BLOCK_FOOTER_SIZE));
+  const blockOffset = cdOffset - footerSize - 8;
+
+  if (blockOffset < 0 || Number(buffer.readBigUInt64LE(blockOffset)) !== footerSize) {
+    throw new Error('Invalid APK Signing Block: size mismatch');
+  }
+
+  return blockOffset;
+}
+
+/**
+ * Returns a copy of EOCD record with Central Directory offset replaced
+ */
+export function withCentralDirectoryOffset(eocd: Buffer, cdOffset: number): Buffer {
+  const copy = Buffer.from(eocd);
+  copy.writeUInt32LE(cdOffset, 16);
+  return copy;
+}
+
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const CENTRAL_DIRECTORY_HEADER_SIZE = 46;
+export const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+export const LOCAL_HEADER_SIZE = 30;
+
+// General purpose flag: file name is UTF-8
+const UTF8_NAME_FLAG = 0x0800;
+
+export interface CentralDirectoryEntry {
+  name: string;
+  /** Compression method, 0 = stored */
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+  /** Offset of the record within the archive */
+  recordOffset: number;
+  /** Record size including name, extra field and comment */
+  recordSize: number;
+}
+
+/**
+ * Reads Central Directory records in their archive order
+ *
+ * @param buffer - Whole archive contents
+ * @param sections - Result of readZipSections for the same buffer
+ * @throws Error if a record is malformed
+ */
+export function readCentralDirectory(buffer: Buffer, sections: ZipSections): CentralDirectoryEntry[] {
+  return parseCentralDirectory(buffer.subarray(sections.cdOffset, sections.eocdOffset), sections);
+}
+
+function parseCentralDirectory(centralDirectory: Buffer, sections: ZipSections): CentralDirectoryEntry[] {
+  const entries: CentralDirectoryEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < sections.entryCount; i++) {
+    if (offset + CENTRAL_DIRECTORY_HEADER_SIZE > centralDirectory.length ||
+        centralDirectory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Invalid ZIP: malformed Central Directory');
+    }
+
+    const flags = centralDirectory.readUInt16LE(offset + 8);
+    const nameLength = centralDirectory.readUInt16LE(offset + 28);
+    const recordSize = CENTRAL_DIRECTORY_HEADER_SIZE +
+      nameLength +
+      centralDirectory.readUInt16LE(offset + 30) +
+      centralDirectory.readUInt16LE(offset + 32);
+    const name = centralDirectory.subarray(
+      offset + CENTRAL_DIRECTORY_HEADER_SIZE,
+      offset + CENTRAL_DIRECTORY_HEADER_SIZE + nameLength
+    );
+
+    entries.push({
+      name: name.toString(flags & UTF8_NAME_FLAG ? 'utf8' : 'latin1'),
+      method: centralDirectory.readUInt16LE(offset + 10),
+      compressedSize: centralDirectory.readUInt32LE(offset + 20),
+      localHeaderOffset: centralDirectory.readUInt32LE(offset + 42),
+      recordOffset: sections.cdOffset + offset,
+      recordSize,
+    });
+    offset += recordSize;
+  }
+
+  return entries;
+}
+
+/**
+ * Returns a copy of Central Directory record with local header offset replaced
+ */
+export function withLocalHeaderOffset(record: Buffer, localHeaderOffset: number): Buffer {
+  const copy = Buffer.from(record);
+  copy.writeUInt32LE(localHeaderOffset, 42);
+  return copy;
+}
+
+/**
+ * Archive opened for reading by offset: only EOCD and Central Directory are kept in memory,
+ * entries are read from the file when needed
+ */
+export interface ZipFile {
+  handle: FileHandle;
+  sections: ZipSections;
+  entries: CentralDirectoryEntry[];
+  centralDirectory: Buffer;
+  eocd: Buffer;
+}
+
+// Entry data is copied and hashed in chunks of this size
+export const FILE_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Reads exactly `length` bytes at `offset`
+ *
+ * @throws Error if the file ends earlier
+ */
+export async function readFileRange(
+  handle: FileHandle,
+  offset: number,
+  length: number,
+  target: Buffer = Buffer.alloc(length)
+): Promise<Buffer> {
+  const { bytesRead } = await handle.read(target, 0, length, offset);
+  if (bytesRead !== length) {
+    throw new Error('Invalid ZIP: unexpected end of file');
+  }
+  return target.subarray(0, length);
+}
+
+/**
+ * Opens archive and reads its structure, the caller closes `handle`
+ *
+ * @param flags - 'r+' to modify the archive in place
+ * @throws Error on malformed or ZIP64 archives
+ */
+export async function openZipFile(filePath: string, flags: 'r' | 'r+' = 'r'): Promise<ZipFile> {
+  const handle = await fs.promises.open(filePath, flags);
+
+  try {
+    const { size } = await handle.stat();
+    if (size < EOCD_MIN_SIZE) {
+      throw new Error('Invalid ZIP: file too small');
+    }
+
+    // EOCD is within the last 64KB (maximum comment size)
+    const tailOffset = Math.max(0, size - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+    const tail = await readFileRange(handle, tailOffset, size - tailOffset);
+    const eocdOffset = tailOffset + findEndOfCentralDirectory(tail);
+    const eocd = tail.subarray(eocdOffset - tailOffset);
+    const { cdOffset, cdSize, entryCount } = readEndOfCentralDirectory(eocd, eocdOffset);
+
+    let signingBlockOffset: number | null = null;
+    if (cdOffset >= APK_SIGNING_BLOCK_FOOTER_SIZE + 8) {
+      const footer = await readFileRange(handle, cdOffset - APK_SIGNING_BLOCK_FOOTER_SIZE, APK_SIGNING_BLOCK_FOOTER_SIZE);
+      if (footer.subarray(8).equals(APK_SIGNING_BLOCK_MAGIC)) {
+        const footerSize = Number(footer.readBigUInt64LE(0));
+        signingBlockOffset = cdOffset - footerSize - 8;
+        if (signingBlockOffset < 0 ||
+            Number((await readFileRange(handle, signingBlockOffset, 8)).readBigUInt64LE(0)) !== footerSize) {
+          throw new Error('Invalid APK Signing Block: size mismatch');
+        }
+      }
+    }
+
+    const sections: ZipSections = {
+      entriesEnd: signingBlockOffset ?? cdOffset,
+      cdOffset,
+      cdSize,
+      eocdOffset,
+      entryCount,
+      signingBlockOffset,
+    };
+    const centralDirectory = await readFileRange(handle, cdOffset, cdSize);
+
+    return {
+      handle,
+      sections,
+      entries: parseCentralDirectory(centralDirectory, sections),
+      centralDirectory,
+      eocd: Buffer.from(eocd),
+    };
+  } catch (error) {
+    await handle.close();
+    throw error;
+  }
+}
+
+/**
+ * Central Directory record of entry as stored in the archive
+ */
+export function centralDirectoryRecord(zip: ZipFile, entry: CentralDirectoryEntry): Buffer {
+  const offset = entry.recordOffset - zip.sections.cdOffset;
+  return zip.centralDirectory.subarray(offset, offset + entry.recordSize);
+}
+
+export interface LocalHeader {
+  /** Fixed part of the header and file name */
+  header: Buffer;
+  extra: Buffer;
+  dataOffset: number;
+}
+
+/**
+ * Reads local header of entry
+ *
+ * @throws Error if the header is malformed
+ */
+export async function readLocalHeader(zip: ZipFile, entry: CentralDirectoryEntry): Promise<LocalHeader> {
+  const offset = entry.localHeaderOffset;
+  const fixed = offset + LOCAL_HEADER_SIZE <= zip.sections.entriesEnd
+    ? await readFileRange(zip.handle, offset, LOCAL_HEADER_SIZE)
+    : null;
+  if (!fixed || fixed.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Invalid ZIP: malformed local header of ${entry.name}`);
+  }
+
+  const nameLength = fixed.readUInt16LE(26);
+  const extraLength = fixed.readUInt16LE(28);
+  const variable = await readFileRange(zip.handle, offset + LOCAL_HEADER_SIZE, nameLength + extraLength);
+
+  return {
+    header: Buffer.concat([fixed, variable.subarray(0, nameLength)]),
+    extra: variable.subarray(nameLength),
+    dataOffset: offset + LOCAL_HEADER_SIZE + nameLength + extraLength,
+  };
+}
+
+/**
+ * Streams contents of entry from the file to `consume`, deflated entries are inflated on the way
+ *
+ * @throws Error on compression methods other than stored and deflate
+ */
+export async function readEntryData(
+  zip: ZipFile,
+  entry: CentralDirectoryEntry,
+  consume: (chunks: AsyncIterable<Buffer>) => Promise<void>
+): Promise<void> {
+  if (entry.method !== 0 && entry.method !== 8) {
+    throw new Error(`Unsupported compression method ${entry.method} of ${entry.name}`);
+  }
+  if (entry.compressedSize === 0) {
+    return consume(Readable.from([]));
+  }
+
+  const { dataOffset } = await readLocalHeader(zip, entry);
+  const data = zip.handle.createReadStream({
+    start: dataOffset,
+    end: dataOffset + entry.compressedSize - 1,
+    autoClose: false,
+  });
+
+  if (entry.method === 0) {
+    await pipeline(data, consume);
+  } else {
+    await pipeline(data, zlib.createInflateRaw(), consume);
+  }
+}
+
+/**
+ * Contents of a small entry (e.g. AndroidManifest.xml), null if the archive has no such entry
+ */
+export async function readEntry(zip: ZipFile, name: string): Promise<Buffer | null> {
+  const entry = zip.entries.find(e => e.name === name);
+  if (!entry) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+  await readEntryData(zip, entry, async data => {
+    for await (const chunk of data) {
+      chunks.push(chunk);
+    }
+  });
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Entries sorted by local header offset, each with the end of its local record
+ * (data and data descriptor run until the next local header)
+ */
+export function localRecords(zip: ZipFile): Array<{ entry: CentralDirectoryEntry; end: number }> {
+  const byOffset = [...zip.entries].sort((a, b) => a.localHeaderOffset - b.localHeaderOffset);
+  return byOffset.map((entry, index) => ({
+    entry,
+    end: byOffset[index + 1]?.localHeaderOffset ?? zip.sections.entriesEnd,
+  }));
+}
+
+/**
+ * Appends bytes [start, end) of source to output through `chunk`, reused between calls
+ */
+export async function copyFileRange(source: FileHandle, output: FileHandle, start: number, end: number, chunk: Buffer): Promise<void> {
+  for (let offset = start; offset < end; offset += chunk.length) {
+    const data = await readFileRange(source, offset, Math.min(chunk.length, end - offset), chunk);
+    await output.write(data);
+  }
+}
+
+/**
+ * Writes new contents of file to a temporary file next to it, then replaces the file
+ * Temporary file is held from file limit pruning while it is written
+ */
+export async function replaceFile(filePath: string, write: (output: FileHandle) => Promise<void>): Promise<void> {
+  const tempPath = `${filePath}.tmp`;
+  const releaseTemp = holdFiles(tempPath);
+
+  try {
+    const output = await fs.promises.open(tempPath, 'w');
+    try {
+      await write(output);
+    } finally {
+      await output.close();
+    }
+    await fs.move(tempPath, filePath, { overwrite: true });
+  } catch (error) {
+    await fs.remove(tempPath);
+    throw error;
+  } finally {
+    releaseTemp();
+  }
+}
+
+export interface NewZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+// 1981-01-01 00:00 in MS-DOS format, keeps generated entries reproducible
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 9) | (1 << 5) | 1;
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * @param previous - CRC of the preceding data, to compute it chunk by chunk
+ */
+export function crc32(data: Buffer, previous = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (const byte of data) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+interface EntryHeaderFields {
+  name: string;
+  method: 0 | 8;
+  crc: number;
+  compressedSize: number;
+  size: number;
+}
+
+/**
+ * Local header (with name) and Central Directory record of a new entry
+ */
+function buildEntryHeaders(fields: EntryHeaderFields, localHeaderOffset: number): { header: Buffer; record: Buffer } {
+  const name = Buffer.from(fields.name, 'utf8');
+
+  const local = Buffer.alloc(LOCAL_HEADER_SIZE);
+  local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+  local.writeUInt16LE(fields.method === 8 ? 20 : 10, 4); // version needed: deflate or stored
+  local.writeUInt16LE(UTF8_NAME_FLAG, 6);
+  local.writeUInt16LE(fields.method, 8);
+  local.writeUInt16LE(DOS_TIME, 10);
+  local.writeUInt16LE(DOS_DATE, 12);
+  local.writeUInt32LE(fields.crc, 14);
+  local.writeUInt32LE(fields.compressedSize, 18);
+  local.writeUInt32LE(fields.size, 22);
+  local.writeUInt16LE(name.length, 26);
+
+  const record = Buffer.alloc(CENTRAL_DIRECTORY_HEADER_SIZE);
+  record.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+  record.writeUInt16LE(20, 4); // version made by
+  local.copy(record, 6, 4, 26); // version needed .. uncompressed size
+  record.writeUInt16LE(name.length, 28);
+  record.writeUInt32LE(localHeaderOffset, 42);
+
+  return {
+    header: Buffer.concat([local, name]),
+    record: Buffer.concat([record, name]),
+  };
+}
+
+/**
+ * Builds deflated local record and Central Directory record for a new entry
+ */
+function buildEntry(entry: NewZipEntry, localHeaderOffset: number): { local: Buffer; record: Buffer } {
+  const compressed = zlib.deflateRawSync(entry.data);
+  const { header, record } = buildEntryHeaders({
+    name: entry.name,
+    method: 8,
+    crc: crc32(entry.data),
+    compressedSize: compressed.length,
+    size: entry.data.length,
+  }, localHeaderOffset);
+
+  return { local: Buffer.concat([header, compressed]), record };
+}
+
+/**
+ * Local header and Central Directory record of a stored (uncompressed) entry,
+ * its data is written by the caller right after the header
+ */
+export function buildStoredEntryHeaders(
+  name: string,
+  crc: number,
+  size: number,
+  localHeaderOffset: number
+): { header: Buffer; record: Buffer } {
+  return buildEntryHeaders({ name, method: 0, crc, compressedSize: size, size }, localHeaderOffset);
+}
+
+/**
+ * Central Directory and EOCD of a rebuilt archive
+ *
+ * @param records - Central Directory records in archive order
+ * @param eocd - EOCD of the source archive, its comment is kept
+ * @param cdOffset - Where Central Directory starts in the new archive
+ */
+export function buildArchiveEnd(records: Buffer[], eocd: Buffer, cdOffset: number): Buffer {
+  const centralDirectory = Buffer.concat(records);
+  const newEocd = withCentralDirectoryOffset(eocd, cdOffset);
+  newEocd.writeUInt16LE(records.length, 8);
+  newEocd.writeUInt16LE(records.length, 10);
+  newEocd.writeUInt32LE(centralDirectory.length, 12);
+
+  return Buffer.concat([centralDirectory, newEocd]);
+}
+
+/**
+ * Rebuilds archive in place: new entries are deflated and placed first,
+ * kept entries are copied from the file without recompression
+ * APK Signing Block is dropped
+ *
+ * @param filePath - Archive to rewrite
+ * @param added - Entries written at the start of the archive
+ * @param keep - Decides whether an existing entry stays in the archive
+ * @throws Error on malformed or ZIP64 archives
+ */
+export async function rewriteZip(
+  filePath: string,
+  added: NewZipEntry[],
+  keep: (entry: CentralDirectoryEntry) => boolean = () => true
+): Promise<void> {
+  const zip = await openZipFile(filePath);
+
+  try {
+    await replaceFile(filePath, async output => {
+      const chunk = Buffer.alloc(FILE_CHUNK_SIZE);
+      const records: Buffer[] = [];
+      let position = 0;
+
+      for (const entry of added) {
+        const { local, record } = buildEntry(entry, position);
+        await output.write(local);
+        records.push(record);
+        position += local.length;
+      }
+
+      const newOffsets = new Map<CentralDirectoryEntry, number>();
+      for (const { entry, end } of localRecords(zip)) {
+        if (!keep(entry)) continue;
+
+        await copyFileRange(zip.handle, output, entry.localHeaderOffset, end, chunk);
+        newOffsets.set(entry, position);
+        position += end - entry.localHeaderOffset;
+      }
+
+      for (const entry of zip.entries) {
+        const offset = newOffsets.get(entry);
+        if (offset !== undefined) {
+          records.push(withLocalHeaderOffset(centralDirectoryRecord(zip, entry), offset));
+        }
+      }
+
+      await output.write(buildArchiveEnd(records, zip.eocd, position));
+    });
+  } finally {
+    await zip.handle.close();
+  }
+}
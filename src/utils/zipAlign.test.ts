@@ -0,0 +1,78 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import AdmZip from 'adm-zip';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { buildApk } from '../test/apk.js';
+import { alignApkFile, checkZipAlignment, NATIVE_LIBRARY_ALIGNMENT, STORED_ENTRY_ALIGNMENT } from './zipAlign.js';
+
+let workDir: string;
+
+beforeAll(async () => {
+  workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zipalign-'));
+});
+
+afterAll(async () => {
+  await fs.remove(workDir);
+});
+
+async function writeApk(name: string, apk = buildApk()): Promise<string> {
+  const apkPath = path.join(workDir, name);
+  await fs.writeFile(apkPath, apk);
+  return apkPath;
+}
+
+describe('zipalign', () => {
+  test('generated APK starts misaligned', async () => {
+    const report = await checkZipAlignment(await writeApk('unaligned.apk'));
+    expect(report.aligned).toBe(false);
+    expect(report.checkedEntries).toBe(3);
+  });
+
+  test('aligns stored entries to 4 bytes and native libraries to 16KB', async () => {
+    const apk = buildApk();
+    const apkPath = await writeApk('align.apk', apk);
+
+    await alignApkFile(apkPath);
+    const aligned = await fs.readFile(apkPath);
+
+    expect(await checkZipAlignment(apkPath)).toEqual({ aligned: true, checkedEntries: 3, misaligned: [] });
+
+    const original = new AdmZip(apk);
+    const result = new AdmZip(aligned);
+    expect(result.getEntries().map(e => e.entryName)).toEqual(original.getEntries().map(e => e.entryName));
+    for (const entry of original.getEntries()) {
+      expect(result.readFile(entry.entryName)!.equals(entry.getData())).toBe(true);
+    }
+  });
+
+  test('aligning twice does not change the archive', async () => {
+    const apkPath = await writeApk('twice.apk');
+
+    await alignApkFile(apkPath);
+    const first = await fs.readFile(apkPath);
+    await alignApkFile(apkPath);
+
+    expect((await fs.readFile(apkPath)).equals(first)).toBe(true);
+  });
+
+  test('archive comment is kept when aligning', async () => {
+    const zip = new AdmZip(buildApk());
+    zip.addZipComment('archive comment');
+    const apkPath = await writeApk('comment.apk', zip.toBuffer());
+
+    await alignApkFile(apkPath);
+
+    expect((await checkZipAlignment(apkPath)).aligned).toBe(true);
+    expect(new AdmZip(apkPath).getZipComment()).toBe('archive comment');
+  });
+
+  test('reports offset and required alignment of misaligned entries', async () => {
+    const report = await checkZipAlignment(await writeApk('misaligned.apk'));
+    for (const entry of report.misaligned) {
+      const expected = entry.name.endsWith('.so') ? NATIVE_LIBRARY_ALIGNMENT : STORED_ENTRY_ALIGNMENT;
+      expect(entry.alignment).toBe(expected);
+      expect(entry.offset % expected).not.toBe(0);
+    }
+  });
+});
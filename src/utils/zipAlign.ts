@@ -0,0 +1,168 @@
+import type { ZipAlignmentReport } from '../types/index.js';
+import {
+  centralDirectoryRecord,
+  copyFileRange,
+  FILE_CHUNK_SIZE,
+  localRecords,
+  openZipFile,
+  readLocalHeader,
+  replaceFile,
+  withCentralDirectoryOffset,
+  withLocalHeaderOffset,
+  type CentralDirectoryEntry,
+} from './zip.utils.js';
+
+/**
+ * zipalign over ZIP structure
+ * Uncompressed entries are aligned so Android can mmap them directly from the APK:
+ * 4 bytes for regular entries, 16KB pages for native libraries (required by Play for 16KB page size devices)
+ * https://developer.android.com/tools/zipalign
+ */
+
+export const STORED_ENTRY_ALIGNMENT = 4;
+export const NATIVE_LIBRARY_ALIGNMENT = 16 * 1024;
+
+// Extra field used by apksigner for alignment padding: uint16 alignment followed by zero bytes
+const ALIGNMENT_EXTRA_ID = 0xd935;
+const ALIGNMENT_EXTRA_MIN_SIZE = 6;
+
+/**
+ * Alignment required for entry data, null for compressed entries
+ */
+export function requiredAlignment(entry: Pick<CentralDirectoryEntry, 'name' | 'method'>): number | null {
+  if (entry.method !== 0) {
+    return null;
+  }
+  return entry.name.endsWith('.so') ? NATIVE_LIBRARY_ALIGNMENT : STORED_ENTRY_ALIGNMENT;
+}
+
+/**
+ * Removes padding left by previous alignment (apksigner field or zipalign zero bytes)
+ * Extra field that cannot be parsed is kept as is
+ */
+function stripAlignmentPadding(extra: Buffer): Buffer {
+  const kept: Buffer[] = [];
+  let offset = 0;
+
+  while (offset < extra.length) {
+    if (extra.length - offset < 4) {
+      if (extra.subarray(offset).every(b => b === 0)) break;
+      return extra;
+    }
+
+    const id = extra.readUInt16LE(offset);
+    const size = extra.readUInt16LE(offset + 2);
+    if (offset + 4 + size > extra.length) {
+      return extra;
+    }
+    if (id !== ALIGNMENT_EXTRA_ID && id !== 0) {
+      kept.push(extra.subarray(offset, offset + 4 + size));
+    }
+    offset += 4 + size;
+  }
+
+  return Buffer.concat(kept);
+}
+
+/**
+ * Builds alignment extra field moving data at dataOffset to the next multiple of alignment
+ */
+function alignmentPadding(dataOffset: number, alignment: number): Buffer {
+  let size = (alignment - (dataOffset % alignment)) % alignment;
+  if (size === 0) {
+    return Buffer.alloc(0);
+  }
+  while (size < ALIGNMENT_EXTRA_MIN_SIZE) {
+    size += alignment;
+  }
+
+  const padding = Buffer.alloc(size);
+  padding.writeUInt16LE(ALIGNMENT_EXTRA_ID, 0);
+  padding.writeUInt16LE(size - 4, 2);
+  padding.writeUInt16LE(Math.min(alignment, 0xffff), 4);
+  return padding;
+}
+
+/**
+ * Aligns APK in place: archive is rewritten with aligned uncompressed entries
+ * Runs after v1 signing and before v2/v3, like zipalign in the SDK toolchain
+ *
+ * Entry data, data descriptors and Central Directory records are copied from the file unchanged
+ * except for offsets, so v1 signature stays valid. APK Signing Block is dropped, v2/v3 must be applied afterwards
+ *
+ * @throws Error on malformed or ZIP64 archives
+ */
+export async function alignApkFile(apkPath: string): Promise<void> {
+  const zip = await openZipFile(apkPath);
+
+  try {
+    await replaceFile(apkPath, async output => {
+      const chunk = Buffer.alloc(FILE_CHUNK_SIZE);
+      const newOffsets = new Map<CentralDirectoryEntry, number>();
+      let position = 0;
+
+      for (const { entry, end } of localRecords(zip)) {
+        const local = await readLocalHeader(zip, entry);
+
+        const extra = stripAlignmentPadding(local.extra);
+        const alignment = requiredAlignment(entry);
+        const padding = alignment
+          ? alignmentPadding(position + local.header.length + extra.length, alignment)
+          : Buffer.alloc(0);
+
+        if (extra.length + padding.length > 0xffff) {
+          throw new Error(`Extra field of ${entry.name} is too large to align`);
+        }
+
+        const header = Buffer.from(local.header);
+        header.writeUInt16LE(extra.length + padding.length, 28);
+
+        await output.write(Buffer.concat([header, extra, padding]));
+        await copyFileRange(zip.handle, output, local.dataOffset, end, chunk);
+        newOffsets.set(entry, position);
+
+        position += header.length + extra.length + padding.length + end - local.dataOffset;
+      }
+
+      const centralDirectory = zip.entries.map(entry => withLocalHeaderOffset(
+        centralDirectoryRecord(zip, entry),
+        newOffsets.get(entry)!
+      ));
+
+      await output.write(Buffer.concat([...centralDirectory, withCentralDirectoryOffset(zip.eocd, position)]));
+    });
+  } finally {
+    await zip.handle.close();
+  }
+}
+
+/**
+ * Checks alignment of uncompressed entries, same rules as `zipalign -c -P 16 4`
+ * Only local headers are read, entry data is not
+ *
+ * @param apkPath - Archive to check
+ * @throws Error on malformed or ZIP64 archives
+ */
+export async function checkZipAlignment(apkPath: string): Promise<ZipAlignmentReport> {
+  const zip = await openZipFile(apkPath);
+  const report: ZipAlignmentReport = { aligned: true, checkedEntries: 0, misaligned: [] };
+
+  try {
+    for (const entry of zip.entries) {
+      const alignment = requiredAlignment(entry);
+      if (alignment === null) continue;
+
+      const { dataOffset } = await readLocalHeader(zip, entry);
+      report.checkedEntries++;
+
+      if (dataOffset % alignment !== 0) {
+        report.misaligned.push({ name: entry.name, offset: dataOffset, alignment });
+      }
+    }
+  } finally {
+    await zip.handle.close();
+  }
+
+  report.aligned = report.misaligned.length === 0;
+  return report;
+}